@@ -0,0 +1,87 @@
+import {
+  DropdownMenuCheckboxItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+} from './ui/dropdown-menu';
+import {
+  CSVDecimalSeparator,
+  CSVDelimiter,
+  CSVDialect,
+  CSVLineEnding,
+  CSVQuoting,
+  CSV_DIALECT_PRESETS,
+} from '../utils/csvFormat';
+
+interface CSVDialectMenuProps {
+  dialect: CSVDialect;
+  onChange: (dialect: CSVDialect) => void;
+}
+
+const delimiterLabels: Record<CSVDelimiter, string> = { ',': 'Comma', ';': 'Semicolon', '\t': 'Tab' };
+const decimalLabels: Record<CSVDecimalSeparator, string> = { '.': 'Point (1.5)', ',': 'Comma (1,5)' };
+const lineEndingLabels: Record<CSVLineEnding, string> = { '\r\n': 'CRLF (Windows)', '\n': 'LF (Unix)' };
+const quotingLabels: Record<CSVQuoting, string> = {
+  minimal: 'Only when needed',
+  all: 'Every cell',
+  'non-numeric': 'Every non-numeric cell',
+};
+
+const sameDialect = (a: CSVDialect, b: CSVDialect) =>
+  (Object.keys(a) as (keyof CSVDialect)[]).every(key => a[key] === b[key]);
+
+// Submenu of the export menu: separators, quoting, BOM and header row of CSV downloads
+export const CSVDialectMenu = ({ dialect, onChange }: CSVDialectMenuProps) => {
+  const preset = Object.keys(CSV_DIALECT_PRESETS).find(name => sameDialect(CSV_DIALECT_PRESETS[name], dialect));
+  const radioGroup = <K extends keyof CSVDialect>(key: K, label: string, labels: Record<string, string>) => (
+    <>
+      <DropdownMenuSeparator />
+      <DropdownMenuLabel className="text-xs text-muted-foreground">{label}</DropdownMenuLabel>
+      <DropdownMenuRadioGroup
+        value={String(dialect[key])}
+        onValueChange={(value) => onChange({ ...dialect, [key]: value })}
+      >
+        {Object.entries(labels).map(([value, text]) => (
+          <DropdownMenuRadioItem key={value} value={value}>{text}</DropdownMenuRadioItem>
+        ))}
+      </DropdownMenuRadioGroup>
+    </>
+  );
+
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>CSV format: {preset ?? 'Custom'}</DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="w-60 max-h-[70vh] overflow-auto">
+        <DropdownMenuRadioGroup
+          value={preset ?? ''}
+          onValueChange={(name) => onChange(CSV_DIALECT_PRESETS[name])}
+        >
+          {Object.keys(CSV_DIALECT_PRESETS).map(name => (
+            <DropdownMenuRadioItem key={name} value={name}>{name}</DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {radioGroup('delimiter', 'Delimiter', delimiterLabels)}
+        {radioGroup('decimalSeparator', 'Decimal separator', decimalLabels)}
+        {radioGroup('lineEnding', 'Line ending', lineEndingLabels)}
+        {radioGroup('quoting', 'Quoting', quotingLabels)}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={dialect.bom}
+          onCheckedChange={(checked) => onChange({ ...dialect, bom: checked === true })}
+        >
+          Byte order mark (Excel)
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuCheckboxItem
+          checked={dialect.header}
+          onCheckedChange={(checked) => onChange({ ...dialect, header: checked === true })}
+        >
+          Header row
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+};
@@ -0,0 +1,80 @@
+import { Download, ChevronDown } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { CSVDialectMenu } from './CSVDialectMenu';
+import { ExportMetadataMode } from '../utils/ifcParser';
+import { CSVDialect } from '../utils/csvFormat';
+
+interface ExportMenuProps {
+  metadataMode: ExportMetadataMode;
+  onMetadataModeChange: (mode: ExportMetadataMode) => void;
+  csvDialect: CSVDialect;
+  onCSVDialectChange: (dialect: CSVDialect) => void;
+  // Name of the export template used by onDownloadCSV
+  templateName: string;
+  onDownloadCSV: () => void;
+  onEditTemplates: () => void;
+  onDownloadLayersCSV: () => void;
+  onDownloadWorkbook: () => void;
+  compact?: boolean;
+}
+
+export const ExportMenu = ({
+  metadataMode,
+  onMetadataModeChange,
+  csvDialect,
+  onCSVDialectChange,
+  templateName,
+  onDownloadCSV,
+  onEditTemplates,
+  onDownloadLayersCSV,
+  onDownloadWorkbook,
+  compact,
+}: ExportMenuProps) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Download className={compact ? 'w-3 h-3 mr-1' : 'w-4 h-4 mr-2'} />
+          Export
+          <ChevronDown className={compact ? 'w-3 h-3 ml-1' : 'w-4 h-4 ml-2'} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuItem onSelect={onDownloadCSV}>
+          Download CSV ({templateName})
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={onDownloadLayersCSV}>
+          Download CSV (Material Layers)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={onDownloadWorkbook}>
+          Download Excel workbook (.xlsx)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={onEditTemplates}>
+          Edit export templates…
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <CSVDialectMenu dialect={csvDialect} onChange={onCSVDialectChange} />
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs text-muted-foreground">File metadata</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={metadataMode}
+          onValueChange={(value) => onMetadataModeChange(value as ExportMetadataMode)}
+        >
+          <DropdownMenuRadioItem value="none">None</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="preamble">Preamble in CSV</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="sidecar">Sidecar JSON file</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
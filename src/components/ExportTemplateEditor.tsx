@@ -0,0 +1,271 @@
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ArrowDown, ArrowUp, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+import { IFCExportColumn, IFCExportTemplate, parseExportTemplates } from '../utils/ifcExportTemplates';
+import { downloadBlob, safeBaseName } from '../utils/download';
+
+interface ExportTemplateEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: IFCExportTemplate[];
+  activeTemplate: IFCExportTemplate;
+  onSelect: (name: string) => void;
+  onSave: (template: IFCExportTemplate, previousName?: string) => void;
+  onDelete: (name: string) => void;
+  onImport: (templates: IFCExportTemplate[]) => void;
+  // Types present in the loaded model, offered as checkboxes
+  availableTypes: string[];
+  // Column paths offered while typing
+  pathSuggestions: string[];
+}
+
+const PATH_LIST_ID = 'export-template-paths';
+
+const emptyTemplate = (): IFCExportTemplate => ({
+  name: 'New template',
+  types: [],
+  columns: [{ header: 'GlobalId', path: 'GlobalId' }, { header: 'Name', path: 'Name' }],
+});
+
+// Edits the entity types and columns written by the template CSV export
+export const ExportTemplateEditor = ({
+  open,
+  onOpenChange,
+  templates,
+  activeTemplate,
+  onSelect,
+  onSave,
+  onDelete,
+  onImport,
+  availableTypes,
+  pathSuggestions,
+}: ExportTemplateEditorProps) => {
+  const [draft, setDraft] = useState<IFCExportTemplate>(activeTemplate);
+  // Name the draft was loaded under; null for a template not saved yet
+  const [editingName, setEditingName] = useState<string | null>(activeTemplate.name);
+  const [customType, setCustomType] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(activeTemplate);
+    setEditingName(activeTemplate.name);
+  }, [open, activeTemplate]);
+
+  const typeOptions = [...new Set([...availableTypes, ...draft.types])].sort();
+
+  const toggleType = (type: string, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      types: checked ? [...prev.types, type] : prev.types.filter(t => t !== type),
+    }));
+  };
+
+  const addCustomType = () => {
+    const type = customType.trim().toUpperCase();
+    if (type && !draft.types.includes(type)) setDraft(prev => ({ ...prev, types: [...prev.types, type] }));
+    setCustomType('');
+  };
+
+  const updateColumn = (index: number, change: Partial<IFCExportColumn>) => {
+    setDraft(prev => ({
+      ...prev,
+      columns: prev.columns.map((column, i) => (i === index ? { ...column, ...change } : column)),
+    }));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setDraft(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.columns.length) return prev;
+      const columns = [...prev.columns];
+      [columns[index], columns[target]] = [columns[target], columns[index]];
+      return { ...prev, columns };
+    });
+  };
+
+  const removeColumn = (index: number) => {
+    setDraft(prev => ({ ...prev, columns: prev.columns.filter((_, i) => i !== index) }));
+  };
+
+  const addColumn = () => {
+    setDraft(prev => ({ ...prev, columns: [...prev.columns, { header: '', path: '' }] }));
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (templates.some(t => t.name === name && t.name !== editingName)) {
+      toast({ title: "Error", description: `A template named "${name}" already exists.`, variant: "destructive" });
+      return;
+    }
+    try {
+      const [template] = parseExportTemplates({
+        ...draft,
+        columns: draft.columns.filter(column => column.path.trim()),
+      });
+      onSave(template, editingName ?? undefined);
+      setEditingName(template.name);
+      toast({ title: "Template saved", description: `Downloads now use "${template.name}".` });
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handleDelete = () => {
+    if (editingName) onDelete(editingName);
+    onOpenChange(false);
+  };
+
+  const handleExportJSON = () => {
+    const json = JSON.stringify(draft, null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${safeBaseName(draft.name)}.template.json`);
+  };
+
+  const handleImportJSON = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseExportTemplates(JSON.parse(await file.text()));
+      onImport(imported);
+      toast({ title: "Templates imported", description: imported.map(t => t.name).join(', ') });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Could not import ${file.name}: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Export templates</DialogTitle>
+          <DialogDescription>
+            Columns are attributes (GlobalId), property or quantity set members (Pset_WallCommon.FireRating,
+            *.FireRating), whole sets (Pset_WallCommon) or derived fields (@Level). {'{unit}'} in a header
+            is replaced by the column's unit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={editingName ?? ''}
+            onValueChange={(name) => onSelect(name)}
+          >
+            <SelectTrigger className="h-9 w-48 text-sm">
+              <SelectValue placeholder="Unsaved template" />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(t => (
+                <SelectItem key={t.name} value={t.name}>{t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => { setDraft(emptyTemplate()); setEditingName(null); }}>
+            <Plus className="w-4 h-4 mr-1" />
+            New
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-1" />
+            Import JSON
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleExportJSON}>
+            <Download className="w-4 h-4 mr-1" />
+            Export JSON
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportJSON} />
+        </div>
+
+        <div className="flex-1 overflow-auto space-y-4 pr-1">
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Name</label>
+            <Input value={draft.name} onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))} />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">
+              Entity types {draft.types.length ? `(${draft.types.length})` : '(none selected: all entities)'}
+            </label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-1 mt-1 max-h-36 overflow-auto border rounded p-2">
+              {typeOptions.map(type => (
+                <label key={type} className="flex items-center gap-2 text-xs">
+                  <Checkbox
+                    checked={draft.types.includes(type)}
+                    onCheckedChange={(checked) => toggleType(type, checked === true)}
+                  />
+                  {type}
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-2">
+              <Input
+                value={customType}
+                placeholder="Other type, e.g. IFCDUCTSEGMENT"
+                className="h-8 text-xs"
+                onChange={(e) => setCustomType(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') addCustomType(); }}
+              />
+              <Button size="sm" variant="outline" onClick={addCustomType}>Add type</Button>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Columns</label>
+            <datalist id={PATH_LIST_ID}>
+              {pathSuggestions.map(path => <option key={path} value={path} />)}
+            </datalist>
+            <div className="space-y-1 mt-1">
+              {draft.columns.map((column, index) => (
+                <div key={index} className="flex items-center gap-1">
+                  <Input
+                    value={column.header}
+                    placeholder="Header"
+                    className="h-8 text-xs"
+                    onChange={(e) => updateColumn(index, { header: e.target.value })}
+                  />
+                  <Input
+                    value={column.path}
+                    placeholder="Path"
+                    list={PATH_LIST_ID}
+                    className="h-8 text-xs font-mono"
+                    onChange={(e) => updateColumn(index, { path: e.target.value })}
+                  />
+                  <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" title="Move up" onClick={() => moveColumn(index, -1)}>
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" title="Move down" onClick={() => moveColumn(index, 1)}>
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" title="Remove column" onClick={() => removeColumn(index)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button size="sm" variant="outline" className="mt-2" onClick={addColumn}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add column
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleDelete} disabled={!editingName}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+          <Button onClick={handleSave}>Save and use</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
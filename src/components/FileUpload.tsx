@@ -23,12 +23,8 @@ export const FileUpload = ({ onFileSelect, isProcessing }: FileUploadProps) => {
     }
     
     if (acceptedFiles.length > 0) {
-      const file = acceptedFiles[0];
-      if (file.size > 100 * 1024 * 1024) { // 100MB limit
-        setError('File size must be less than 100MB');
-        return;
-      }
-      onFileSelect(file);
+      // No size cap: files are streamed rather than loaded into memory
+      onFileSelect(acceptedFiles[0]);
     }
   }, [onFileSelect]);
 
@@ -77,7 +73,7 @@ export const FileUpload = ({ onFileSelect, isProcessing }: FileUploadProps) => {
                 Drag and drop your IFC file here, or click to browse
               </p>
               <p className="text-sm text-muted-foreground">
-                Supports .ifc files up to 100MB
+                Supports .ifc files of any size
               </p>
             </div>
             
@@ -1,8 +1,10 @@
 import { useMemo, useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
 import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { ChevronDown, ChevronRight } from 'lucide-react';
 import { IFCElement } from '@/utils/ifcParser3D';
+import { classificationPathIn, collectClassificationSystems } from '@/utils/ifcClassifications';
 
 interface HierarchyPivotTableProps {
   elements: IFCElement[];
@@ -10,90 +12,160 @@ interface HierarchyPivotTableProps {
   onElementSelect: (element: IFCElement) => void;
 }
 
-export const HierarchyPivotTable = ({ elements, selectedElement, onElementSelect }: HierarchyPivotTableProps) => {
-  const [expandedType, setExpandedType] = useState<Set<string>>(new Set());
-  const [expandedLevel, setExpandedLevel] = useState<Set<string>>(new Set());
-
-  const tree = useMemo(() => {
-    const byType: Record<string, Record<string, IFCElement[]>> = {};
-    for (const el of elements) {
-      const t = el.type || 'Unknown';
-      const lvl = el.level || 'Unknown';
-      byType[t] ||= {};
-      byType[t][lvl] ||= [];
-      byType[t][lvl].push(el);
+interface HierarchyNode {
+  key: string;
+  label: string;
+  // Elements that end at this node; deeper ones live in children
+  elements: IFCElement[];
+  count: number;
+  children: Map<string, HierarchyNode>;
+}
+
+// Grouping path of an element; returning an empty path leaves it out
+type HierarchyPath = (element: IFCElement) => string[];
+
+const TYPE_LEVEL = 'type-level';
+
+const typeLevelPath: HierarchyPath = el => [(el.type || 'Unknown').replace('IFC', ''), el.level || 'Unknown'];
+
+// Codes like Ss_25_10_30 nest under each of their prefixes, so the tree is as deep as the codes
+const classificationTreePath = (system: string): HierarchyPath => el => {
+  const path = classificationPathIn(el.classifications, system);
+  return path.length ? path : ['Unclassified'];
+};
+
+const buildTree = (elements: IFCElement[], pathOf: HierarchyPath): HierarchyNode => {
+  const root: HierarchyNode = { key: '', label: '', elements: [], count: 0, children: new Map() };
+  for (const el of elements) {
+    let node = root;
+    node.count++;
+    for (const label of pathOf(el)) {
+      let child = node.children.get(label);
+      if (!child) {
+        child = { key: `${node.key}|${label}`, label, elements: [], count: 0, children: new Map() };
+        node.children.set(label, child);
+      }
+      child.count++;
+      node = child;
     }
-    return byType;
-  }, [elements]);
+    node.elements.push(el);
+  }
+  return root;
+};
 
-  const toggleType = (t: string) => {
-    const s = new Set(expandedType);
-    s.has(t) ? s.delete(t) : s.add(t);
-    setExpandedType(s);
-  };
-  const toggleLevel = (key: string) => {
-    const s = new Set(expandedLevel);
+interface HierarchyRowProps {
+  node: HierarchyNode;
+  depth: number;
+  expanded: Set<string>;
+  onToggle: (key: string) => void;
+  selectedElement?: IFCElement | null;
+  onElementSelect: (element: IFCElement) => void;
+}
+
+const HierarchyRow = ({ node, depth, expanded, onToggle, selectedElement, onElementSelect }: HierarchyRowProps) => {
+  const open = expanded.has(node.key);
+  return (
+    <div className={depth === 0 ? 'border rounded-lg' : 'border-t'}>
+      <div
+        className="flex items-center justify-between p-3 cursor-pointer hover:bg-muted/50"
+        style={{ paddingLeft: `${0.75 + depth}rem` }}
+        onClick={() => onToggle(node.key)}
+      >
+        <div className="flex items-center gap-2">
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <span className={depth === 0 ? 'font-medium' : 'text-sm font-medium'}>{node.label}</span>
+          <Badge variant={depth === 0 ? 'secondary' : 'outline'} className="text-xs">{node.count}</Badge>
+        </div>
+      </div>
+
+      {open && (
+        <div className="bg-muted/25">
+          {Array.from(node.children.values()).map(child => (
+            <HierarchyRow
+              key={child.key}
+              node={child}
+              depth={depth + 1}
+              expanded={expanded}
+              onToggle={onToggle}
+              selectedElement={selectedElement}
+              onElementSelect={onElementSelect}
+            />
+          ))}
+          {node.elements.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-1 p-3" style={{ paddingLeft: `${1.75 + depth}rem` }}>
+              {node.elements.map(el => (
+                <button
+                  key={el.id}
+                  onClick={() => onElementSelect(el)}
+                  className={`text-left text-xs p-2 rounded transition-colors ${
+                    selectedElement?.id === el.id ? 'bg-primary text-primary-foreground' : 'bg-background hover:bg-muted text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {el.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const HierarchyPivotTable = ({ elements, selectedElement, onElementSelect }: HierarchyPivotTableProps) => {
+  const [mode, setMode] = useState(TYPE_LEVEL);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const systems = useMemo(
+    () => Array.from(collectClassificationSystems(elements.map(el => el.classifications)).keys()),
+    [elements]
+  );
+
+  const tree = useMemo(
+    () => buildTree(elements, mode === TYPE_LEVEL ? typeLevelPath : classificationTreePath(mode)),
+    [elements, mode]
+  );
+
+  const toggle = (key: string) => {
+    const s = new Set(expanded);
     s.has(key) ? s.delete(key) : s.add(key);
-    setExpandedLevel(s);
+    setExpanded(s);
   };
 
   return (
     <Card className="w-full h-full">
       <CardHeader className="pb-3">
-        <CardTitle className="text-lg">Hierarchy: Type → Level → Elements</CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg">
+            Hierarchy: {mode === TYPE_LEVEL ? 'Type → Level' : mode} → Elements
+          </CardTitle>
+          {systems.length > 0 && (
+            <Select value={mode} onValueChange={setMode}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TYPE_LEVEL}>Type → Level</SelectItem>
+                {systems.map(system => (
+                  <SelectItem key={system} value={system}>{system}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
       </CardHeader>
       <CardContent className="overflow-auto max-h-[600px] space-y-2">
-        {Object.entries(tree).map(([type, levelMap]) => {
-          const typeCount = Object.values(levelMap).reduce((acc, arr) => acc + arr.length, 0);
-          const typeKey = `t:${type}`;
-          const tOpen = expandedType.has(typeKey);
-          return (
-            <div key={type} className="border rounded-lg">
-              <div className="flex items-center justify-between p-3 cursor-pointer hover:bg-muted/50" onClick={() => toggleType(typeKey)}>
-                <div className="flex items-center gap-2">
-                  {tOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
-                  <span className="font-medium">{type.replace('IFC', '')}</span>
-                  <Badge variant="secondary">{typeCount}</Badge>
-                </div>
-              </div>
-
-              {tOpen && (
-                <div className="border-t bg-muted/25">
-                  {Object.entries(levelMap).map(([level, els]) => {
-                    const lvlKey = `${typeKey}|l:${level}`;
-                    const lOpen = expandedLevel.has(lvlKey);
-                    return (
-                      <div key={lvlKey} className="p-3 border-b last:border-b-0">
-                        <div className="flex items-center justify-between mb-2 cursor-pointer" onClick={() => toggleLevel(lvlKey)}>
-                          <div className="flex items-center gap-2">
-                            {lOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
-                            <span className="text-sm font-medium">{level}</span>
-                            <Badge variant="outline" className="text-xs">{els.length}</Badge>
-                          </div>
-                        </div>
-                        {lOpen && (
-                          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-1">
-                            {els.map(el => (
-                              <button
-                                key={el.id}
-                                onClick={() => onElementSelect(el)}
-                                className={`text-left text-xs p-2 rounded transition-colors ${
-                                  selectedElement?.id === el.id ? 'bg-primary text-primary-foreground' : 'bg-background hover:bg-muted text-muted-foreground hover:text-foreground'
-                                }`}
-                              >
-                                {el.name}
-                              </button>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    );
-                  })}
-                </div>
-              )}
-            </div>
-          );
-        })}
+        {Array.from(tree.children.values()).map(node => (
+          <HierarchyRow
+            key={node.key}
+            node={node}
+            depth={0}
+            expanded={expanded}
+            onToggle={toggle}
+            selectedElement={selectedElement}
+            onElementSelect={onElementSelect}
+          />
+        ))}
       </CardContent>
     </Card>
   );
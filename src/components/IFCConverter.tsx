@@ -1,40 +1,54 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { FileUpload } from './FileUpload';
 import { ProcessingProgress } from './ProcessingProgress';
-import { parseIFCFile, convertToCSV } from '@/utils/ifcParser';
+import { exportCSVInWorker } from '@/workers/ifcWorkerClient';
 import { useToast } from '@/hooks/use-toast';
+import { IFCProgress, isAbortError } from '@/utils/ifcProgress';
+import { streamToBlob } from '@/utils/download';
+import { CSV_BOM, DEFAULT_CSV_DIALECT } from '@/utils/csvFormat';
 
 export const IFCConverter = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
-  const [csvData, setCsvData] = useState<string | null>(null);
+  const [csvData, setCsvData] = useState<Blob | null>(null);
+  const [progress, setProgress] = useState<IFCProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
   const handleFileSelect = async (file: File) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setSelectedFile(file);
     setIsProcessing(true);
     setIsComplete(false);
     setCsvData(null);
+    setProgress(null);
 
     try {
-      // Parse the IFC file
-      const entities = await parseIFCFile(file);
+      // Parse and convert off the main thread
+      const dialect = DEFAULT_CSV_DIALECT;
+      const exported = await exportCSVInWorker(file, 'entities', { dialect }, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      const rows = await streamToBlob(exported.csv, 'text/csv;charset=utf-8;');
+      const csv = dialect.bom ? new Blob([CSV_BOM, rows], { type: rows.type }) : rows;
+      const rowCount = await exported.rowCount;
       
-      if (entities.length === 0) {
+      if (rowCount === 0) {
         throw new Error('No valid IFC entities found in the file');
       }
 
-      // Convert to CSV
-      const csv = convertToCSV(entities);
       setCsvData(csv);
       setIsComplete(true);
       
       toast({
         title: 'Conversion successful!',
-        description: `Converted ${entities.length} entities to CSV format`,
+        description: `Converted ${rowCount} entities to CSV format`,
       });
     } catch (error) {
+      if (isAbortError(error)) return;
       toast({
         title: 'Conversion failed',
         description: error instanceof Error ? error.message : 'An error occurred during conversion',
@@ -42,11 +56,17 @@ export const IFCConverter = () => {
       });
       handleReset();
     } finally {
-      setIsProcessing(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsProcessing(false);
+      }
     }
   };
 
   const handleReset = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
     setSelectedFile(null);
     setIsProcessing(false);
     setIsComplete(false);
@@ -67,6 +87,7 @@ export const IFCConverter = () => {
           isComplete={isComplete}
           csvData={csvData}
           onReset={handleReset}
+          progress={progress}
         />
       )}
     </div>
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Upload, RotateCcw } from 'lucide-react';
@@ -9,11 +9,48 @@ import { QuantityPanel } from './QuantityPanel';
 import { PivotTable } from './PivotTable';
 import { HierarchyPivotTable } from './HierarchyPivotTable';
 import { ProcessingProgress } from './ProcessingProgress';
+import { ExportMenu } from './ExportMenu';
+import { UnitSystemToggle } from './UnitSystemToggle';
+import { OpeningRuleSelect } from './OpeningRuleSelect';
+import { QuantitySourceSelect } from './QuantitySourceSelect';
+import { ReconciliationReport } from './ReconciliationReport';
+import { ExportTemplateEditor } from './ExportTemplateEditor';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from './ui/resizable';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { useIsMobile } from '../hooks/use-mobile';
-import { parseIFCFile3D, IFCModel, IFCElement } from '../utils/ifcParser3D';
-import { parseIFCFile as parseIFCAll, convertToCSVSelectedParams } from '@/utils/ifcParser';
+import { useExportTemplates } from '../hooks/use-export-templates';
+import { IFCModel, IFCElement, IFCModelSettings, withQuantitySource } from '../utils/ifcParser3D';
+import { parseIFCModelInWorker, exportCSVInWorker } from '@/workers/ifcWorkerClient';
+import type { CSVExportFormat, CSVExportSettings } from '@/workers/ifcWorkerProtocol';
+import { IFCProgress, isAbortError } from '@/utils/ifcProgress';
+import {
+  ExportMetadataMode,
+  IFCExportMetadata,
+  IFCFileHeader,
+  buildExportMetadata,
+  formatMetadataPreamble,
+} from '@/utils/ifcParser';
+import { downloadBlob, openDownloadStream, safeBaseName } from '@/utils/download';
+import { IFCUnitSystem } from '@/utils/ifcUnits';
+import { DEFAULT_OPENING_RULE, IFCOpeningRule } from '@/utils/ifcOpenings';
+import { DEFAULT_QUANTITY_SOURCE, IFCQuantitySourcePreference, collectSelectedQuantities } from '@/utils/ifcQuantitySources';
+import { templatePathSuggestions } from '@/utils/ifcExportTemplates';
+import { CSVDialect, CSV_BOM, localeCSVDialect } from '@/utils/csvFormat';
+import { DEFAULT_PIVOT_LAYOUT, PivotLayout } from '@/utils/ifcPivot';
+import { exportWorkbook } from '@/utils/ifcWorkbook';
+
+const describeHeader = (header: IFCFileHeader) =>
+  [header.schemaIdentifiers.join(', '), header.originatingSystem].filter(Boolean).join(' • ');
+
+const headerTooltip = (header: IFCFileHeader) =>
+  [
+    `Schema: ${header.schemaIdentifiers.join(', ') || '-'}`,
+    `Originating system: ${header.originatingSystem || '-'}`,
+    `Preprocessor: ${header.preprocessorVersion || '-'}`,
+    `Author: ${header.author.join(', ') || '-'}`,
+    `Organization: ${header.organization.join(', ') || '-'}`,
+    `Timestamp: ${header.timeStamp || '-'}`,
+  ].join('\n');
 
 export const IFCViewer = () => {
   const [file, setFile] = useState<File | null>(null);
@@ -23,17 +60,38 @@ export const IFCViewer = () => {
   const [selectedElement, setSelectedElement] = useState<IFCElement | null>(null);
   const [visibleTypes, setVisibleTypes] = useState<Set<string>>(new Set());
   const [is3DLoaded, setIs3DLoaded] = useState(false);
+  const [progress, setProgress] = useState<IFCProgress | null>(null);
+  const [metadataMode, setMetadataMode] = useState<ExportMetadataMode>('none');
+  const [csvDialect, setCSVDialect] = useState<CSVDialect>(() => localeCSVDialect());
+  const [pivotLayout, setPivotLayout] = useState<PivotLayout>(DEFAULT_PIVOT_LAYOUT);
+  const [unitSystem, setUnitSystem] = useState<IFCUnitSystem>('metric');
+  const [openingRule, setOpeningRule] = useState<IFCOpeningRule>(DEFAULT_OPENING_RULE);
+  const [quantitySource, setQuantitySource] = useState<IFCQuantitySourcePreference>(DEFAULT_QUANTITY_SOURCE);
+  const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
+  const exportTemplates = useExportTemplates();
+  const { activeTemplate } = exportTemplates;
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const isMobile = useIsMobile();
 
-  const handleFileSelect = useCallback(async (selectedFile: File) => {
+  // Cancel in-flight work when the viewer goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const processFile = useCallback(async (selectedFile: File, settings: IFCModelSettings) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setFile(selectedFile);
     setIsProcessing(true);
     setIsComplete(false);
     setSelectedElement(null);
+    setProgress(null);
 
     try {
-      const parsedModel = await parseIFCFile3D(selectedFile);
+      const parsedModel = await parseIFCModelInWorker(selectedFile, settings, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
       
       // Initialize all types as visible
       const allTypes = new Set(Object.keys(parsedModel.quantities.byType));
@@ -46,6 +104,7 @@ export const IFCViewer = () => {
         description: `IFC file processed successfully. Found ${parsedModel.elements.length} elements across ${parsedModel.levels.length} levels.`,
       });
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error processing IFC file:', error);
       toast({
         title: "Error",
@@ -53,11 +112,35 @@ export const IFCViewer = () => {
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
+      // The controller stays in abortRef so exports of this file are cancelled with it
+      if (abortRef.current === controller) setIsProcessing(false);
     }
   }, [toast]);
 
+  const handleFileSelect = useCallback(
+    (selectedFile: File) => processFile(selectedFile, { openingRule, quantitySource }),
+    [processFile, openingRule, quantitySource]
+  );
+
+  // Deductions are computed while parsing, so a new rule re-processes the file
+  const handleOpeningRuleChange = useCallback((rule: IFCOpeningRule) => {
+    setOpeningRule(rule);
+    if (file) processFile(file, { openingRule: rule, quantitySource });
+  }, [file, processFile, quantitySource]);
+
+  // Both candidates are already on the elements, so only the selection is redone
+  const handleQuantitySourceChange = useCallback((preference: IFCQuantitySourcePreference) => {
+    setQuantitySource(preference);
+    if (!model) return;
+    const next = withQuantitySource(model, preference);
+    setModel(next);
+    setSelectedElement(prev => (prev ? next.elements.find(el => el.id === prev.id) ?? null : null));
+  }, [model]);
+
   const handleReset = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
     setFile(null);
     setIsProcessing(false);
     setIsComplete(false);
@@ -87,36 +170,90 @@ export const IFCViewer = () => {
     visibleTypes.has(element.type)
   ) || [];
 
-  const handleDownloadAllParamsCSV = useCallback(async () => {
+  // Runs an export in the worker and saves it with the chosen metadata mode
+  const downloadCSVExport = useCallback(async (format: CSVExportFormat, exportName: string, settings: CSVExportSettings = {}) => {
     if (!file) return;
-    const entities = await parseIFCAll(file);
-    const structuralTypes = new Set([
-      'IFCBEAM',
-      'IFCCOLUMN',
-      'IFCSLAB',
-      'IFCMEMBER',
-      'IFCBRACE',
-      'IFCTRUSS',
-      'IFCFOOTING',
-      'IFCPILE',
-      'IFCWALL',
-      'IFCPLATE'
-    ]);
-    const filtered = entities.filter(e => structuralTypes.has(e.type?.toUpperCase?.() || e.type));
-    const csv = convertToCSVSelectedParams(filtered);
-    const bom = '\uFEFF';
-    const blob = new Blob([bom, csv], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    const baseName = file.name.replace(/\.[^/.]+$/, '');
-    const safeBase = baseName.replace(/[^a-zA-Z0-9._-]+/g, '_') || 'export';
-    a.download = `${safeBase}_structural_selected_params.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [file]);
+    // Reset and loading another file cancel the export
+    const signal = abortRef.current?.signal;
+    const reportFailure = (error: unknown) => {
+      console.error('Error exporting CSV:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export the CSV file. Please try again.",
+        variant: "destructive",
+      });
+    };
+    // Opened before the export runs: the save dialog needs the click's user gesture
+    let target: WritableStream<BlobPart>;
+    try {
+      target = await openDownloadStream(`${exportName}.csv`, 'text/csv;charset=utf-8;');
+    } catch (error) {
+      if (!isAbortError(error)) reportFailure(error);
+      return;
+    }
+    let metadata: IFCExportMetadata;
+    try {
+      const { csv, header } = await exportCSVInWorker(file, format, {
+        ...settings,
+        unitSystem,
+        openingRule,
+        dialect: csvDialect,
+      }, { signal });
+      metadata = buildExportMetadata(header, file.name);
+      const writer = target.getWriter();
+      if (csvDialect.bom) await writer.write(CSV_BOM);
+      if (metadataMode === 'preamble') await writer.write(formatMetadataPreamble(metadata, csvDialect));
+      writer.releaseLock();
+      await csv.pipeTo(target);
+    } catch (error) {
+      // Discards the partial file; the stream may already be errored by pipeTo
+      await target.abort(error).catch(() => {});
+      if (!isAbortError(error)) reportFailure(error);
+      return;
+    }
+    if (metadataMode === 'sidecar') {
+      const json = JSON.stringify(metadata, null, 2);
+      downloadBlob(new Blob([json], { type: 'application/json' }), `${exportName}.metadata.json`);
+    }
+  }, [file, metadataMode, unitSystem, openingRule, csvDialect, toast]);
+
+  // Writes the active export template's types and columns
+  const handleDownloadTemplateCSV = useCallback(async () => {
+    if (!file || !model) return;
+    const { name, types } = activeTemplate;
+    await downloadCSVExport('template', `${safeBaseName(file.name)}_${safeBaseName(name)}`, {
+      types: types.length ? types : undefined,
+      template: activeTemplate,
+      quantities: collectSelectedQuantities(model.elements),
+    });
+  }, [file, model, activeTemplate, downloadCSVExport]);
+
+  // The model's selected volumes are split over the layers, as in the quantity panel
+  const handleDownloadLayersCSV = useCallback(async () => {
+    if (!file || !model) return;
+    await downloadCSVExport('layers', `${safeBaseName(file.name)}_material_layers`, {
+      quantities: collectSelectedQuantities(model.elements),
+    });
+  }, [file, model, downloadCSVExport]);
+
+  // Workbook of the loaded model with the views as currently shown
+  const handleDownloadWorkbook = useCallback(async () => {
+    if (!file || !model) return;
+    try {
+      const metadata = buildExportMetadata(model.header, file.name);
+      const workbook = await exportWorkbook(model, { unitSystem, pivotLayout, metadata });
+      downloadBlob(workbook, `${safeBaseName(file.name)}.xlsx`);
+    } catch (error) {
+      console.error('Error exporting workbook:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export the Excel workbook. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [file, model, unitSystem, pivotLayout, toast]);
+
+  const templatePaths = useMemo(() => templatePathSuggestions(model?.elements ?? []), [model]);
 
   if (!file) {
     return (
@@ -160,12 +297,29 @@ export const IFCViewer = () => {
             isComplete={isComplete}
             csvData={null}
             onReset={handleReset}
+            progress={progress}
+            phases={['parsing', 'relationships', 'volumes', 'geometry']}
           />
         </div>
       </Card>
     );
   }
 
+  const templateEditor = (
+    <ExportTemplateEditor
+      open={isTemplateEditorOpen}
+      onOpenChange={setIsTemplateEditorOpen}
+      templates={exportTemplates.templates}
+      activeTemplate={activeTemplate}
+      onSelect={exportTemplates.setActiveTemplate}
+      onSave={exportTemplates.saveTemplate}
+      onDelete={exportTemplates.deleteTemplate}
+      onImport={exportTemplates.importTemplates}
+      availableTypes={Object.keys(model?.quantities.byType ?? {})}
+      pathSuggestions={templatePaths}
+    />
+  );
+
   if (isMobile) {
     return (
       <div className="h-screen flex flex-col">
@@ -173,14 +327,20 @@ export const IFCViewer = () => {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-lg font-semibold text-foreground">IFC Viewer</h1>
-              <p className="text-xs text-muted-foreground">
+              <p className="text-xs text-muted-foreground truncate" title={model ? headerTooltip(model.header) : undefined}>
                 {file.name} • {model?.elements.length} elements
+                {model && describeHeader(model.header) && ` • ${describeHeader(model.header)}`}
               </p>
             </div>
-            <Button variant="outline" size="sm" onClick={handleReset}>
-              <Upload className="w-3 h-3 mr-1" />
-              New
-            </Button>
+            <div className="flex items-center gap-2">
+              <OpeningRuleSelect value={openingRule} onChange={handleOpeningRuleChange} compact />
+              <QuantitySourceSelect value={quantitySource} onChange={handleQuantitySourceChange} compact />
+              <UnitSystemToggle value={unitSystem} onChange={setUnitSystem} compact />
+              <Button variant="outline" size="sm" onClick={handleReset}>
+                <Upload className="w-3 h-3 mr-1" />
+                New
+              </Button>
+            </div>
           </div>
         </div>
         
@@ -188,15 +348,25 @@ export const IFCViewer = () => {
           <Tabs defaultValue="model" className="h-full flex flex-col">
             <div className="border-b px-4">
               <div className="flex items-center justify-between py-2 gap-2">
-                <TabsList className="grid grid-cols-4">
+                <TabsList className="grid grid-cols-5">
                   <TabsTrigger value="model" className="text-xs">3D Model</TabsTrigger>
                   <TabsTrigger value="quantities" className="text-xs">Quantities</TabsTrigger>
                   <TabsTrigger value="pivot" className="text-xs">Pivot</TabsTrigger>
                   <TabsTrigger value="hierarchy" className="text-xs">Hierarchy</TabsTrigger>
+                  <TabsTrigger value="reconcile" className="text-xs">Reconcile</TabsTrigger>
                 </TabsList>
-                <Button size="sm" variant="outline" onClick={handleDownloadAllParamsCSV}>
-                  Download CSV (All Params)
-                </Button>
+                <ExportMenu
+                  metadataMode={metadataMode}
+                  onMetadataModeChange={setMetadataMode}
+                  csvDialect={csvDialect}
+                  onCSVDialectChange={setCSVDialect}
+                  templateName={activeTemplate.name}
+                  onDownloadCSV={handleDownloadTemplateCSV}
+                  onEditTemplates={() => setIsTemplateEditorOpen(true)}
+                  onDownloadLayersCSV={handleDownloadLayersCSV}
+                  onDownloadWorkbook={handleDownloadWorkbook}
+                  compact
+                />
               </div>
             </div>
             
@@ -222,6 +392,8 @@ export const IFCViewer = () => {
                   <QuantityPanel
                     quantitiesByType={model.quantities.byType}
                     quantitiesByLevel={model.quantities.byLevel}
+                    quantitiesByLayer={model.quantities.byLayer}
+                    unitSystem={unitSystem}
                     selectedElement={selectedElement}
                     onElementSelect={handleElementSelect}
                     visibleTypes={visibleTypes}
@@ -236,7 +408,10 @@ export const IFCViewer = () => {
                     elements={model.elements}
                     selectedElement={selectedElement}
                     onElementSelect={handleElementSelect}
-                    onDownloadSelectedParams={handleDownloadAllParamsCSV}
+                    onDownloadSelectedParams={handleDownloadTemplateCSV}
+                    unitSystem={unitSystem}
+                    layout={pivotLayout}
+                    onLayoutChange={setPivotLayout}
                   />
                 )}
               </TabsContent>
@@ -249,9 +424,22 @@ export const IFCViewer = () => {
                   />
                 )}
               </TabsContent>
+              <TabsContent value="reconcile" className="h-full m-0 p-2">
+                {model && (
+                  <ReconciliationReport
+                    elements={model.elements}
+                    selectedElement={selectedElement}
+                    onElementSelect={handleElementSelect}
+                    unitSystem={unitSystem}
+                    csvDialect={csvDialect}
+                    exportName={safeBaseName(file.name)}
+                  />
+                )}
+              </TabsContent>
             </div>
           </Tabs>
         </div>
+        {templateEditor}
       </div>
     );
   }
@@ -261,14 +449,20 @@ export const IFCViewer = () => {
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-xl font-semibold text-foreground">IFC Viewer</h1>
-            <p className="text-sm text-muted-foreground">
+            <p className="text-sm text-muted-foreground" title={model ? headerTooltip(model.header) : undefined}>
               {file.name} • {model?.elements.length} elements • {model?.levels.length} levels
+              {model && describeHeader(model.header) && ` • ${describeHeader(model.header)}`}
             </p>
           </div>
-          <Button variant="outline" size="sm" onClick={handleReset}>
-            <Upload className="w-4 h-4 mr-2" />
-            New File
-          </Button>
+          <div className="flex items-center gap-2">
+            <OpeningRuleSelect value={openingRule} onChange={handleOpeningRuleChange} />
+            <QuantitySourceSelect value={quantitySource} onChange={handleQuantitySourceChange} />
+            <UnitSystemToggle value={unitSystem} onChange={setUnitSystem} />
+            <Button variant="outline" size="sm" onClick={handleReset}>
+              <Upload className="w-4 h-4 mr-2" />
+              New File
+            </Button>
+          </div>
         </div>
       </div>
       
@@ -298,14 +492,23 @@ export const IFCViewer = () => {
             <Tabs defaultValue="quantities" className="h-full flex flex-col">
               <div className="border-b px-4">
                 <div className="flex items-center justify-between py-2 gap-2">
-                  <TabsList className="grid grid-cols-3">
+                  <TabsList className="grid grid-cols-4">
                     <TabsTrigger value="quantities" className="text-sm">Quantities</TabsTrigger>
                     <TabsTrigger value="pivot" className="text-sm">Pivot</TabsTrigger>
                     <TabsTrigger value="hierarchy" className="text-sm">Hierarchy</TabsTrigger>
+                    <TabsTrigger value="reconcile" className="text-sm">Reconcile</TabsTrigger>
                   </TabsList>
-                  <Button size="sm" variant="outline" onClick={handleDownloadAllParamsCSV}>
-                    Download CSV (All Params)
-                  </Button>
+                  <ExportMenu
+                    metadataMode={metadataMode}
+                    onMetadataModeChange={setMetadataMode}
+                    csvDialect={csvDialect}
+                    onCSVDialectChange={setCSVDialect}
+                    templateName={activeTemplate.name}
+                    onDownloadCSV={handleDownloadTemplateCSV}
+                    onEditTemplates={() => setIsTemplateEditorOpen(true)}
+                    onDownloadLayersCSV={handleDownloadLayersCSV}
+                    onDownloadWorkbook={handleDownloadWorkbook}
+                  />
                 </div>
               </div>
               
@@ -315,6 +518,8 @@ export const IFCViewer = () => {
                     <QuantityPanel
                       quantitiesByType={model.quantities.byType}
                       quantitiesByLevel={model.quantities.byLevel}
+                      quantitiesByLayer={model.quantities.byLayer}
+                      unitSystem={unitSystem}
                       selectedElement={selectedElement}
                       onElementSelect={handleElementSelect}
                       visibleTypes={visibleTypes}
@@ -329,7 +534,10 @@ export const IFCViewer = () => {
                       elements={model.elements}
                       selectedElement={selectedElement}
                       onElementSelect={handleElementSelect}
-                      onDownloadSelectedParams={handleDownloadAllParamsCSV}
+                      onDownloadSelectedParams={handleDownloadTemplateCSV}
+                      unitSystem={unitSystem}
+                      layout={pivotLayout}
+                      onLayoutChange={setPivotLayout}
                     />
                   )}
                 </TabsContent>
@@ -342,11 +550,24 @@ export const IFCViewer = () => {
                     />
                   )}
                 </TabsContent>
+                <TabsContent value="reconcile" className="h-full m-0 p-4">
+                  {model && (
+                    <ReconciliationReport
+                      elements={model.elements}
+                      selectedElement={selectedElement}
+                      onElementSelect={handleElementSelect}
+                      unitSystem={unitSystem}
+                      csvDialect={csvDialect}
+                      exportName={safeBaseName(file.name)}
+                    />
+                  )}
+                </TabsContent>
               </div>
             </Tabs>
           </ResizablePanel>
         </ResizablePanelGroup>
       </div>
+      {templateEditor}
     </div>
   );
 };
\ No newline at end of file
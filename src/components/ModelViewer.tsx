@@ -1,8 +1,16 @@
-import { Canvas } from '@react-three/fiber';
+import { Canvas, useThree } from '@react-three/fiber';
 import { OrbitControls, Grid } from '@react-three/drei';
-import { Suspense, useMemo, useMemo as ReactUseMemo } from 'react';
+import { Suspense, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
 import { IFCElement } from '../utils/ifcParser3D';
+import {
+  computeMeshBounds,
+  createMeshGeometry,
+  getGeometryForType,
+  getMaterialForType,
+  getMeshMaterial,
+  selectedMaterial,
+} from '../utils/ifcGeometry';
 
 interface ModelViewerProps {
   elements: IFCElement[];
@@ -16,22 +24,30 @@ interface ElementMeshProps {
   onClick: (element: IFCElement) => void;
 }
 
+// Placeholders are only drawn for models without real geometry, and only this many
+const PLACEHOLDER_LIMIT = 200;
+
 const ElementMesh = ({ element, isSelected, onClick }: ElementMeshProps) => {
+  const { mesh } = element;
+  const geometry = useMemo(() => (mesh ? createMeshGeometry(mesh) : null), [mesh]);
+  useEffect(() => () => geometry?.dispose(), [geometry]);
+
   const material = useMemo(() => {
-    const base = (element.material as THREE.MeshBasicMaterial) || new THREE.MeshBasicMaterial({ color: 0x888888 });
-    if (isSelected) {
-      return new THREE.MeshBasicMaterial({ color: 0xff6b35 });
-    }
-    return base;
-  }, [element.material, isSelected]);
+    if (isSelected) return selectedMaterial;
+    return mesh ? getMeshMaterial(mesh.opacity) : getMaterialForType(element.type);
+  }, [mesh, element.type, isSelected]);
 
   return (
     <mesh
-      geometry={element.geometry}
+      geometry={geometry ?? getGeometryForType(element.type)}
       material={material}
-      position={element.position}
-      rotation={element.rotation}
-      onClick={() => onClick(element)}
+      // Real meshes are already in world space
+      position={geometry ? undefined : element.position}
+      onClick={(e) => {
+        // Only the nearest mesh under the pointer is selected
+        e.stopPropagation();
+        onClick(element);
+      }}
       onPointerOver={(e) => {
         e.stopPropagation();
         document.body.style.cursor = 'pointer';
@@ -43,13 +59,50 @@ const ElementMesh = ({ element, isSelected, onClick }: ElementMeshProps) => {
   );
 };
 
+// Frames the camera and orbit target around the model whenever its bounds change
+const CameraFit = ({ bounds }: { bounds: THREE.Box3 | null }) => {
+  const camera = useThree(state => state.camera) as THREE.PerspectiveCamera;
+  const controls = useThree(state => state.controls) as unknown as { target: THREE.Vector3; update: () => void } | null;
+  const invalidate = useThree(state => state.invalidate);
+
+  useEffect(() => {
+    if (!bounds) return;
+    const center = bounds.getCenter(new THREE.Vector3());
+    const radius = Math.max(bounds.getBoundingSphere(new THREE.Sphere()).radius, 0.5);
+    const distance = radius / Math.sin(THREE.MathUtils.degToRad(camera.fov / 2));
+    camera.position.copy(center).add(new THREE.Vector3(1, 0.8, 1).normalize().multiplyScalar(distance));
+    camera.near = distance / 1000;
+    camera.far = distance * 20;
+    camera.updateProjectionMatrix();
+    if (controls) {
+      controls.target.copy(center);
+      controls.update();
+    } else {
+      camera.lookAt(center);
+    }
+    invalidate();
+  }, [bounds, camera, controls, invalidate]);
+
+  return null;
+};
+
 const Scene = ({ elements, selectedElement, onElementClick }: ModelViewerProps) => {
-  const limited = useMemo(() => elements.slice(0, 200), [elements]);
+  const meshed = useMemo(() => elements.filter(el => el.mesh), [elements]);
+  const visible = useMemo(
+    () => (meshed.length ? meshed : elements.slice(0, PLACEHOLDER_LIMIT)),
+    [meshed, elements]
+  );
+  const bounds = useMemo(() => computeMeshBounds(meshed.map(el => el.mesh!)), [meshed]);
+  const radius = bounds ? Math.max(bounds.getBoundingSphere(new THREE.Sphere()).radius, 0.5) : 10;
+  const center = bounds ? bounds.getCenter(new THREE.Vector3()) : new THREE.Vector3();
+  const gridSize = Math.ceil(radius * 2);
+
   return (
     <>
-      {/* MeshBasicMaterial does not require lighting */}
-      
-      {limited.map((element) => (
+      <ambientLight intensity={0.6} />
+      <directionalLight position={[1, 2, 1.5]} intensity={0.8} />
+
+      {visible.map((element) => (
         <ElementMesh
           key={element.id}
           element={element}
@@ -57,8 +110,28 @@ const Scene = ({ elements, selectedElement, onElementClick }: ModelViewerProps)
           onClick={onElementClick}
         />
       ))}
-      
-      <Grid args={[20, 20]} cellSize={1} cellThickness={0.3} cellColor="#666666" sectionSize={5} sectionThickness={0.5} sectionColor="#444444" position={[0, -0.1, 0]} />
+
+      <Grid
+        args={[gridSize, gridSize]}
+        cellSize={1}
+        cellThickness={0.3}
+        cellColor="#666666"
+        sectionSize={5}
+        sectionThickness={0.5}
+        sectionColor="#444444"
+        position={[center.x, (bounds ? bounds.min.y : 0) - 0.1, center.z]}
+      />
+      <CameraFit bounds={bounds} />
+      <OrbitControls
+        makeDefault
+        enablePan
+        enableZoom
+        enableRotate
+        enableDamping
+        dampingFactor={0.08}
+        minDistance={bounds ? radius * 0.05 : 3}
+        maxDistance={bounds ? radius * 8 : 20}
+      />
     </>
   );
 };
@@ -75,9 +148,8 @@ export const ModelViewer = ({ elements, selectedElement, onElementClick }: Model
       >
         <Suspense fallback={null}>
           <Scene elements={elements} selectedElement={selectedElement} onElementClick={onElementClick} />
-          <OrbitControls enablePan enableZoom enableRotate enableDamping dampingFactor={0.08} minDistance={3} maxDistance={20} />
         </Suspense>
       </Canvas>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,30 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { IFCOpeningRule } from '../utils/ifcOpenings';
+
+interface OpeningRuleSelectProps {
+  value: IFCOpeningRule;
+  onChange: (rule: IFCOpeningRule) => void;
+  compact?: boolean;
+}
+
+// Thresholds used by common measurement standards, in m²
+const thresholds = [0, 0.5, 1];
+
+export const OpeningRuleSelect = ({ value, onChange, compact }: OpeningRuleSelectProps) => {
+  return (
+    <Select value={String(value.minArea)} onValueChange={(v) => onChange({ minArea: Number(v) })}>
+      <SelectTrigger className={compact ? 'h-8 w-28 text-xs' : 'h-9 w-52 text-sm'} title="Opening deduction">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {thresholds.map(minArea => (
+          <SelectItem key={minArea} value={String(minArea)}>
+            {minArea === 0
+              ? (compact ? 'All openings' : 'Deduct all openings')
+              : (compact ? `≥ ${minArea} m²` : `Deduct openings ≥ ${minArea} m²`)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -5,79 +5,38 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Badge } from './ui/badge';
 import { ChevronDown, ChevronRight, Download } from 'lucide-react';
 import { IFCElement } from '../utils/ifcParser3D';
-// lazy import to avoid bundler resolution issues in some environments
+import { IFCUnitSystem, formatQuantity } from '../utils/ifcUnits';
+import { PivotLayout, buildPivotData, pivotFields } from '../utils/ifcPivot';
 
 interface PivotTableProps {
   elements: IFCElement[];
   selectedElement?: IFCElement | null;
   onElementSelect: (element: IFCElement) => void;
   onDownloadSelectedParams?: () => void;
+  unitSystem: IFCUnitSystem;
+  // Kept by the viewer so the workbook export writes the same layout
+  layout: PivotLayout;
+  onLayoutChange: (layout: PivotLayout) => void;
 }
 
-interface PivotData {
-  [key: string]: {
-    elements: IFCElement[];
-    count: number;
-    totalArea?: number;
-    totalVolume?: number;
-    children?: PivotData;
-  };
-}
-
-const availableFields = [
-  { value: 'type', label: 'Element Type' },
-  { value: 'level', label: 'Level' },
-  { value: 'material', label: 'Material' },
-  { value: 'name', label: 'Name' },
-];
-
-export const PivotTable = ({ elements, selectedElement, onElementSelect, onDownloadSelectedParams }: PivotTableProps) => {
-  const [rowField, setRowField] = useState('type');
-  const [columnField, setColumnField] = useState('level');
+export const PivotTable = ({
+  elements,
+  selectedElement,
+  onElementSelect,
+  onDownloadSelectedParams,
+  unitSystem,
+  layout,
+  onLayoutChange,
+}: PivotTableProps) => {
+  const { rowField, columnField } = layout;
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
 
-  const pivotData = useMemo(() => {
-    const data: PivotData = {};
-    
-    elements.forEach(element => {
-      const rowKey = (element as any)[rowField] as string || 'Unknown';
-      const colKey = (element as any)[columnField] as string || 'Unknown';
-      
-      if (!data[rowKey]) {
-        data[rowKey] = {
-          elements: [],
-          count: 0,
-          totalArea: 0,
-          totalVolume: 0,
-          children: {}
-        };
-      }
-      
-      if (!data[rowKey].children![colKey]) {
-        data[rowKey].children![colKey] = {
-          elements: [],
-          count: 0,
-          totalArea: 0,
-          totalVolume: 0
-        } as any;
-      }
-      
-      data[rowKey].elements.push(element);
-      data[rowKey].count++;
-      data[rowKey].totalArea = (data[rowKey].totalArea || 0) + (element.properties?.area || 0);
-      data[rowKey].totalVolume = (data[rowKey].totalVolume || 0) + (element.properties?.volume || 0);
-      
-      const child = data[rowKey].children![colKey]!;
-      child.elements.push(element);
-      child.count++;
-      child.totalArea = (child.totalArea || 0) + (element.properties?.area || 0);
-      child.totalVolume = (child.totalVolume || 0) + (element.properties?.volume || 0);
-    });
-    
-    return data;
-  }, [elements, rowField, columnField]);
+  const fields = useMemo(() => pivotFields(elements), [elements]);
 
-  // Excel export removed per request
+  const pivotData = useMemo(
+    () => buildPivotData(elements, fields, layout),
+    [elements, fields, layout]
+  );
 
   const toggleRowExpansion = (rowKey: string) => {
     const newExpanded = new Set(expandedRows);
@@ -105,12 +64,12 @@ export const PivotTable = ({ elements, selectedElement, onElementSelect, onDownl
         <div className="flex gap-4 mt-4">
           <div className="flex-1 min-w-0">
             <label className="text-sm font-medium text-muted-foreground">Rows</label>
-            <Select value={rowField} onValueChange={setRowField as any}>
+            <Select value={rowField} onValueChange={(value) => onLayoutChange({ ...layout, rowField: value })}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {availableFields.map(field => (
+                {fields.map(field => (
                   <SelectItem key={field.value} value={field.value}>
                     {field.label}
                   </SelectItem>
@@ -121,12 +80,12 @@ export const PivotTable = ({ elements, selectedElement, onElementSelect, onDownl
           
           <div className="flex-1 min-w-0">
             <label className="text-sm font-medium text-muted-foreground">Columns</label>
-            <Select value={columnField} onValueChange={setColumnField as any}>
+            <Select value={columnField} onValueChange={(value) => onLayoutChange({ ...layout, columnField: value })}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {availableFields.map(field => (
+                {fields.map(field => (
                   <SelectItem key={field.value} value={field.value}>
                     {field.label}
                   </SelectItem>
@@ -157,10 +116,10 @@ export const PivotTable = ({ elements, selectedElement, onElementSelect, onDownl
                 
                 <div className="flex gap-4 text-xs text-muted-foreground">
                   {rowData.totalArea! > 0 && (
-                    <span>Area: {rowData.totalArea!.toFixed(1)} m²</span>
+                    <span>Area: {formatQuantity(rowData.totalArea!, 'area', unitSystem)}</span>
                   )}
                   {rowData.totalVolume! > 0 && (
-                    <span>Vol: {rowData.totalVolume!.toFixed(1)} m³</span>
+                    <span>Vol: {formatQuantity(rowData.totalVolume!, 'volume', unitSystem)}</span>
                   )}
                 </div>
               </div>
@@ -179,10 +138,10 @@ export const PivotTable = ({ elements, selectedElement, onElementSelect, onDownl
                         
                         <div className="flex gap-4 text-xs text-muted-foreground">
                           {colData.totalArea! > 0 && (
-                            <span>{colData.totalArea!.toFixed(1)} m²</span>
+                            <span>{formatQuantity(colData.totalArea!, 'area', unitSystem)}</span>
                           )}
                           {colData.totalVolume! > 0 && (
-                            <span>{colData.totalVolume!.toFixed(1)} m³</span>
+                            <span>{formatQuantity(colData.totalVolume!, 'volume', unitSystem)}</span>
                           )}
                         </div>
                       </div>
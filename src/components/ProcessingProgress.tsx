@@ -1,73 +1,70 @@
-import { useState, useEffect } from 'react';
 import { CheckCircle, Download, FileText, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
+import { IFCProcessingPhase, IFCProgress, phaseFraction } from '@/utils/ifcProgress';
 
 interface ProcessingProgressProps {
   file: File | null;
   isProcessing: boolean;
   isComplete: boolean;
-  csvData: string | null;
+  csvData: Blob | null;
   onReset: () => void;
+  progress?: IFCProgress | null;
+  // Phases the current pipeline goes through, in order
+  phases?: IFCProcessingPhase[];
 }
 
-const steps = [
-  { label: 'Reading IFC file', icon: FileText },
-  { label: 'Parsing structure', icon: Loader2 },
-  { label: 'Converting to CSV', icon: Loader2 },
-  { label: 'Ready for download', icon: CheckCircle }
-];
+const phaseLabels: Record<IFCProcessingPhase, string> = {
+  parsing: 'Reading and parsing IFC file',
+  relationships: 'Resolving relationships',
+  volumes: 'Computing volumes',
+  geometry: 'Triangulating geometry',
+  csv: 'Converting to CSV',
+};
+
+const phaseUnits: Partial<Record<IFCProcessingPhase, string>> = {
+  geometry: 'meshes',
+  csv: 'rows',
+};
+
+const formatMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
+const describeProgress = (progress: IFCProgress): string => {
+  if (progress.phase === 'parsing') {
+    return `${formatMB(progress.bytesRead || 0)} / ${formatMB(progress.totalBytes || 0)} MB read • ${(progress.entitiesParsed || 0).toLocaleString()} entities parsed`;
+  }
+  const unit = phaseUnits[progress.phase] || progress.phase;
+  return `${(progress.completed || 0).toLocaleString()} / ${(progress.total || 0).toLocaleString()} ${unit}`;
+};
 
 export const ProcessingProgress = ({ 
   file, 
   isProcessing, 
   isComplete, 
   csvData, 
-  onReset 
+  onReset,
+  progress,
+  phases = ['parsing', 'csv'],
 }: ProcessingProgressProps) => {
-  const [currentStep, setCurrentStep] = useState(0);
-  const [progress, setProgress] = useState(0);
-
-  useEffect(() => {
-    if (!isProcessing) return;
-
-    const stepDuration = 1000; // 1 second per step
-    const totalSteps = steps.length - 1; // Exclude the final "complete" step
-    
-    const interval = setInterval(() => {
-      setProgress(prev => {
-        const newProgress = prev + (100 / (totalSteps * 10));
-        
-        // Update current step based on progress
-        const newStep = Math.floor((newProgress / 100) * totalSteps);
-        setCurrentStep(Math.min(newStep, totalSteps - 1));
-        
-        if (newProgress >= 100) {
-          clearInterval(interval);
-          return 100;
-        }
-        
-        return newProgress;
-      });
-    }, stepDuration / 10);
-
-    return () => clearInterval(interval);
-  }, [isProcessing]);
+  const steps = [
+    ...phases.map(phase => ({ label: phaseLabels[phase], icon: phase === 'parsing' ? FileText : Loader2 })),
+    { label: 'Ready for download', icon: CheckCircle }
+  ];
 
-  useEffect(() => {
-    if (isComplete) {
-      setCurrentStep(steps.length - 1);
-      setProgress(100);
-    }
-  }, [isComplete]);
+  const phaseIndex = progress ? Math.max(0, phases.indexOf(progress.phase)) : 0;
+  const currentStep = isComplete ? steps.length - 1 : phaseIndex;
+  const percent = isComplete
+    ? 100
+    : progress
+      ? ((phaseIndex + phaseFraction(progress)) / phases.length) * 100
+      : 0;
 
   const downloadCSV = () => {
     if (!csvData || !file) return;
     
-    const blob = new Blob([csvData], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
+    const url = URL.createObjectURL(csvData);
     const a = document.createElement('a');
     a.href = url;
     a.download = `${file.name.replace('.ifc', '')}.csv`;
@@ -140,10 +137,15 @@ export const ProcessingProgress = ({
           {/* Progress Bar */}
           {(isProcessing || isComplete) && (
             <div className="space-y-2">
-              <Progress value={progress} className="h-2" />
+              <Progress value={percent} className="h-2" />
               <p className="text-sm text-center text-muted-foreground">
-                {Math.round(progress)}% complete
+                {Math.round(percent)}% complete
               </p>
+              {isProcessing && progress && (
+                <p className="text-xs text-center text-muted-foreground">
+                  {describeProgress(progress)}
+                </p>
+              )}
             </div>
           )}
 
@@ -156,7 +158,7 @@ export const ProcessingProgress = ({
               </Button>
             )}
             <Button variant="outline" onClick={onReset} className="flex-1">
-              Convert Another File
+              {isProcessing ? 'Cancel' : 'Convert Another File'}
             </Button>
           </div>
         </div>
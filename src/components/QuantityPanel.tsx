@@ -2,12 +2,15 @@ import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
-import { Building2, Layers, Eye, EyeOff } from 'lucide-react';
+import { Building2, Layers, Layers3, Eye, EyeOff } from 'lucide-react';
 import { IFCQuantity, IFCElement } from '../utils/ifcParser3D';
+import { IFCUnitSystem, formatQuantity } from '../utils/ifcUnits';
 
 interface QuantityPanelProps {
   quantitiesByType: Record<string, IFCQuantity>;
   quantitiesByLevel: Record<string, IFCQuantity>;
+  quantitiesByLayer: Record<string, IFCQuantity>;
+  unitSystem: IFCUnitSystem;
   selectedElement?: IFCElement | null;
   onElementSelect: (element: IFCElement) => void;
   visibleTypes: Set<string>;
@@ -16,6 +19,7 @@ interface QuantityPanelProps {
 
 interface QuantityItemProps {
   quantity: IFCQuantity;
+  unitSystem: IFCUnitSystem;
   selectedElement?: IFCElement | null;
   onElementSelect: (element: IFCElement) => void;
   isVisible: boolean;
@@ -24,6 +28,7 @@ interface QuantityItemProps {
 
 const QuantityItem = ({ 
   quantity, 
+  unitSystem,
   selectedElement, 
   onElementSelect, 
   isVisible, 
@@ -37,6 +42,15 @@ const QuantityItem = ({
             {quantity.type.replace('IFC', '')}
           </CardTitle>
           <div className="flex items-center gap-2">
+            {quantity.computedCount > 0 && (
+              <Badge
+                variant="outline"
+                className="text-xs"
+                title="Elements without declared quantities, measured on their geometry"
+              >
+                {quantity.computedCount} computed
+              </Badge>
+            )}
             <Badge variant="secondary" className="text-xs">
               {quantity.count}
             </Badge>
@@ -57,11 +71,17 @@ const QuantityItem = ({
       </CardHeader>
       <CardContent className="pt-0">
         <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground mb-3">
-          {quantity.totalArea && (
-            <div>Area: {quantity.totalArea.toFixed(1)} m²</div>
+          {!!quantity.totalLength && (
+            <div>Length: {formatQuantity(quantity.totalLength, 'length', unitSystem)}</div>
           )}
-          {quantity.totalVolume && (
-            <div>Volume: {quantity.totalVolume.toFixed(1)} m³</div>
+          {!!quantity.totalArea && (
+            <div>Area: {formatQuantity(quantity.totalArea, 'area', unitSystem)}</div>
+          )}
+          {!!quantity.totalVolume && (
+            <div>Volume: {formatQuantity(quantity.totalVolume, 'volume', unitSystem)}</div>
+          )}
+          {!!quantity.totalWeight && (
+            <div>Weight: {formatQuantity(quantity.totalWeight, 'weight', unitSystem)}</div>
           )}
         </div>
         <div className="space-y-1">
@@ -76,6 +96,9 @@ const QuantityItem = ({
               }`}
             >
               {element.name}
+              {(element.quantitySources.area === 'computed' || element.quantitySources.volume === 'computed') && (
+                <span className="ml-1 opacity-70">(computed)</span>
+              )}
             </button>
           ))}
           {quantity.elements.length > 3 && (
@@ -89,9 +112,59 @@ const QuantityItem = ({
   );
 };
 
+interface OpeningListProps {
+  element: IFCElement;
+  unitSystem: IFCUnitSystem;
+}
+
+// Openings of the selected host and what was deducted for each
+const OpeningList = ({ element, unitSystem }: OpeningListProps) => {
+  const deducted = element.openings.filter(o => o.deducted);
+  const sum = (kind: 'area' | 'volume') => deducted.reduce((total, o) => total + (o[kind] ?? 0), 0);
+  return (
+    <Card className="mb-3">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-medium text-foreground truncate">
+            Openings in {element.name}
+          </CardTitle>
+          <Badge variant="secondary" className="text-xs">
+            {deducted.length}/{element.openings.length}
+          </Badge>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Deducted: {formatQuantity(sum('area'), 'area', unitSystem)} • {formatQuantity(sum('volume'), 'volume', unitSystem, 2)}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-1">
+        {element.openings.map(opening => (
+          <div key={opening.openingId} className="text-xs p-2 rounded bg-muted/50 text-muted-foreground">
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate text-foreground">
+                {opening.fillingName
+                  ? `${opening.fillingType?.replace('IFC', '')}: ${opening.fillingName}`
+                  : opening.openingName}
+              </span>
+              {!opening.deducted && (
+                <Badge variant="outline" className="text-xs shrink-0">Not deducted</Badge>
+              )}
+            </div>
+            <div>
+              {opening.area !== null ? formatQuantity(opening.area, 'area', unitSystem, 2) : 'Area unknown'}
+              {opening.volume !== null && ` • ${formatQuantity(opening.volume, 'volume', unitSystem, 3)}`}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
 export const QuantityPanel = ({
   quantitiesByType,
   quantitiesByLevel,
+  quantitiesByLayer,
+  unitSystem,
   selectedElement,
   onElementSelect,
   visibleTypes,
@@ -101,7 +174,7 @@ export const QuantityPanel = ({
     <div className="w-full h-full bg-background border-l">
       <Tabs defaultValue="type" className="h-full flex flex-col">
         <div className="p-4 border-b">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="type" className="text-xs">
               <Building2 className="w-3 h-3 mr-1" />
               By Type
@@ -110,16 +183,26 @@ export const QuantityPanel = ({
               <Layers className="w-3 h-3 mr-1" />
               By Level
             </TabsTrigger>
+            <TabsTrigger value="layer" className="text-xs">
+              <Layers3 className="w-3 h-3 mr-1" />
+              By Layer
+            </TabsTrigger>
           </TabsList>
         </div>
         
         <div className="flex-1 overflow-auto">
+          {!!selectedElement?.openings.length && (
+            <div className="px-4 pt-4">
+              <OpeningList element={selectedElement} unitSystem={unitSystem} />
+            </div>
+          )}
           <TabsContent value="type" className="p-4 mt-0">
             <div className="space-y-2">
               {Object.entries(quantitiesByType).map(([type, quantity]) => (
                 <QuantityItem
                   key={type}
                   quantity={quantity}
+                  unitSystem={unitSystem}
                   selectedElement={selectedElement}
                   onElementSelect={onElementSelect}
                   isVisible={visibleTypes.has(type)}
@@ -135,6 +218,28 @@ export const QuantityPanel = ({
                 <QuantityItem
                   key={level}
                   quantity={quantity}
+                  unitSystem={unitSystem}
+                  selectedElement={selectedElement}
+                  onElementSelect={onElementSelect}
+                  isVisible={true}
+                  onVisibilityToggle={() => {}}
+                />
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="layer" className="p-4 mt-0">
+            <div className="space-y-2">
+              {Object.keys(quantitiesByLayer).length === 0 && (
+                <div className="text-xs text-muted-foreground text-center py-4">
+                  No elements with material layer sets
+                </div>
+              )}
+              {Object.entries(quantitiesByLayer).map(([material, quantity]) => (
+                <QuantityItem
+                  key={material}
+                  quantity={quantity}
+                  unitSystem={unitSystem}
                   selectedElement={selectedElement}
                   onElementSelect={onElementSelect}
                   isVisible={true}
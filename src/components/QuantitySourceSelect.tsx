@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { IFCQuantitySourcePreference, QUANTITY_SOURCE_LABELS } from '../utils/ifcQuantitySources';
+
+interface QuantitySourceSelectProps {
+  value: IFCQuantitySourcePreference;
+  onChange: (preference: IFCQuantitySourcePreference) => void;
+  compact?: boolean;
+}
+
+const compactLabels: Record<IFCQuantitySourcePreference, string> = {
+  'authored-first': 'Authored ▸ computed',
+  'computed-first': 'Computed ▸ authored',
+  'authored-only': 'Authored',
+  'computed-only': 'Computed',
+};
+
+// Whether areas and volumes declared in the file or measured on the geometry win
+export const QuantitySourceSelect = ({ value, onChange, compact }: QuantitySourceSelectProps) => {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as IFCQuantitySourcePreference)}>
+      <SelectTrigger className={compact ? 'h-8 w-28 text-xs' : 'h-9 w-52 text-sm'} title="Quantity source">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(QUANTITY_SOURCE_LABELS) as IFCQuantitySourcePreference[]).map(preference => (
+          <SelectItem key={preference} value={preference}>
+            {compact ? compactLabels[preference] : QUANTITY_SOURCE_LABELS[preference]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,118 @@
+import { useMemo, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Download } from 'lucide-react';
+import { IFCElement } from '../utils/ifcParser3D';
+import {
+  DEFAULT_RECONCILIATION_TOLERANCE,
+  IFCCandidateKind,
+  convertReconciliationToCSV,
+  reconcileQuantities,
+} from '../utils/ifcQuantitySources';
+import { IFCUnitSystem, formatQuantity } from '../utils/ifcUnits';
+import { downloadBlob } from '../utils/download';
+import { CSVDialect, CSV_BOM } from '../utils/csvFormat';
+
+interface ReconciliationReportProps {
+  elements: IFCElement[];
+  selectedElement?: IFCElement | null;
+  onElementSelect: (element: IFCElement) => void;
+  unitSystem: IFCUnitSystem;
+  csvDialect: CSVDialect;
+  // Base name for the downloaded report
+  exportName: string;
+}
+
+const formatPercent = (ratio: number) =>
+  Number.isFinite(ratio) ? `${ratio > 0 ? '+' : ''}${(ratio * 100).toFixed(1)}%` : 'n/a';
+
+// Elements whose authored and computed quantities disagree, to catch bad exports
+export const ReconciliationReport = ({
+  elements,
+  selectedElement,
+  onElementSelect,
+  unitSystem,
+  csvDialect,
+  exportName,
+}: ReconciliationReportProps) => {
+  const [kind, setKind] = useState<IFCCandidateKind>('volume');
+  // Kept in percent while editing
+  const [tolerance, setTolerance] = useState(String(DEFAULT_RECONCILIATION_TOLERANCE * 100));
+
+  const ratio = Math.max(0, Number(tolerance) || 0) / 100;
+  const entries = useMemo(() => reconcileQuantities(elements, kind, ratio), [elements, kind, ratio]);
+  const compared = useMemo(
+    () => elements.filter(el => {
+      const { authored, computed } = el.quantityCandidates[kind];
+      return authored !== undefined && computed !== undefined;
+    }).length,
+    [elements, kind]
+  );
+
+  const handleDownload = () => {
+    const csv = convertReconciliationToCSV(entries, kind, unitSystem, csvDialect);
+    const parts = csvDialect.bom ? [CSV_BOM, csv] : [csv];
+    downloadBlob(new Blob(parts, { type: 'text/csv;charset=utf-8;' }), `${exportName}_${kind}_reconciliation.csv`);
+  };
+
+  return (
+    <Card className="w-full h-full flex flex-col">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg">Reconciliation</CardTitle>
+          <Button size="sm" variant="outline" onClick={handleDownload} disabled={!entries.length}>
+            <Download className="w-4 h-4 mr-2" />
+            Download CSV
+          </Button>
+        </div>
+        <div className="flex gap-4 mt-4">
+          <div className="flex-1 min-w-0">
+            <label className="text-sm font-medium text-muted-foreground">Quantity</label>
+            <Select value={kind} onValueChange={(v) => setKind(v as IFCCandidateKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="volume">Volume</SelectItem>
+                <SelectItem value="area">Area</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-32">
+            <label className="text-sm font-medium text-muted-foreground">Tolerance (%)</label>
+            <Input type="number" min={0} step={1} value={tolerance} onChange={(e) => setTolerance(e.target.value)} />
+          </div>
+        </div>
+        <div className="text-xs text-muted-foreground mt-2">
+          {entries.length} of {compared} elements with both authored and computed values differ by more than {ratio * 100}%
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 flex-1 overflow-auto space-y-1">
+        {entries.map(({ element, authored, computed, relativeDifference }) => (
+          <button
+            key={element.id}
+            onClick={() => onElementSelect(element)}
+            className={`w-full text-left text-xs p-2 rounded transition-colors ${
+              selectedElement?.id === element.id
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate">{element.name}</span>
+              <Badge variant="outline" className="text-xs shrink-0">
+                {formatPercent(relativeDifference)}
+              </Badge>
+            </div>
+            <div>
+              {element.type.replace('IFC', '')} • {element.level} • Authored {formatQuantity(authored, kind, unitSystem, 3)} • Computed {formatQuantity(computed, kind, unitSystem, 3)}
+            </div>
+          </button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,29 @@
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { IFCUnitSystem } from '../utils/ifcUnits';
+
+interface UnitSystemToggleProps {
+  value: IFCUnitSystem;
+  onChange: (system: IFCUnitSystem) => void;
+  compact?: boolean;
+}
+
+// Display and export unit system; quantities are stored in SI either way
+export const UnitSystemToggle = ({ value, onChange, compact }: UnitSystemToggleProps) => {
+  return (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      variant="outline"
+      value={value}
+      // Radix reports an empty value when the active item is clicked again
+      onValueChange={(next) => next && onChange(next as IFCUnitSystem)}
+    >
+      <ToggleGroupItem value="metric" className={compact ? 'text-xs px-2' : 'text-sm'}>
+        {compact ? 'SI' : 'Metric'}
+      </ToggleGroupItem>
+      <ToggleGroupItem value="imperial" className={compact ? 'text-xs px-2' : 'text-sm'}>
+        {compact ? 'Imp' : 'Imperial'}
+      </ToggleGroupItem>
+    </ToggleGroup>
+  );
+};
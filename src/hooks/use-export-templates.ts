@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BUILT_IN_TEMPLATES, IFCExportTemplate, parseExportTemplates } from '@/utils/ifcExportTemplates';
+
+const TEMPLATES_KEY = 'ifc-export-templates';
+const ACTIVE_KEY = 'ifc-export-template-active';
+
+// Saved templates, or the built-in ones when nothing valid is stored
+const loadTemplates = (): IFCExportTemplate[] => {
+  try {
+    const stored = localStorage.getItem(TEMPLATES_KEY);
+    if (stored) {
+      const templates = parseExportTemplates(JSON.parse(stored));
+      if (templates.length) return templates;
+    }
+  } catch {
+    // Fall through to the built-ins
+  }
+  return BUILT_IN_TEMPLATES;
+};
+
+// Export templates persisted in localStorage, plus the one used for downloads
+export const useExportTemplates = () => {
+  const [templates, setTemplates] = useState<IFCExportTemplate[]>(loadTemplates);
+  const [activeName, setActiveName] = useState<string>(
+    () => localStorage.getItem(ACTIVE_KEY) ?? BUILT_IN_TEMPLATES[0].name
+  );
+
+  useEffect(() => {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  }, [templates]);
+
+  useEffect(() => {
+    localStorage.setItem(ACTIVE_KEY, activeName);
+  }, [activeName]);
+
+  const activeTemplate = templates.find(t => t.name === activeName) ?? templates[0];
+
+  // Replaces the template called previousName (or template.name) and makes it active.
+  // Callers keep names unique.
+  const saveTemplate = useCallback((template: IFCExportTemplate, previousName = template.name) => {
+    setTemplates(prev =>
+      prev.some(t => t.name === previousName)
+        ? prev.map(t => (t.name === previousName ? template : t))
+        : [...prev, template]
+    );
+    setActiveName(template.name);
+  }, []);
+
+  const deleteTemplate = useCallback((name: string) => {
+    setTemplates(prev => {
+      const next = prev.filter(t => t.name !== name);
+      return next.length ? next : BUILT_IN_TEMPLATES;
+    });
+  }, []);
+
+  // Imported templates replace saved ones with the same name
+  const importTemplates = useCallback((imported: IFCExportTemplate[]) => {
+    const names = new Set(imported.map(t => t.name));
+    setTemplates(prev => [...prev.filter(t => !names.has(t.name)), ...imported]);
+    if (imported.length) setActiveName(imported[0].name);
+  }, []);
+
+  return {
+    templates,
+    activeTemplate,
+    setActiveTemplate: setActiveName,
+    saveTemplate,
+    deleteTemplate,
+    importTemplates,
+  };
+};
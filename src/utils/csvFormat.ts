@@ -0,0 +1,73 @@
+// CSV serialization shared by every export: RFC 4180 escaping with a
+// configurable dialect for spreadsheets that expect other separators.
+
+export type CSVDelimiter = ',' | ';' | '\t';
+export type CSVDecimalSeparator = '.' | ',';
+export type CSVLineEnding = '\r\n' | '\n';
+// minimal: only cells containing the delimiter, a quote or a line break;
+// non-numeric: every cell except numbers
+export type CSVQuoting = 'minimal' | 'all' | 'non-numeric';
+
+export interface CSVDialect {
+  delimiter: CSVDelimiter;
+  decimalSeparator: CSVDecimalSeparator;
+  lineEnding: CSVLineEnding;
+  // Byte order mark, which Excel needs to read the file as UTF-8
+  bom: boolean;
+  header: boolean;
+  quoting: CSVQuoting;
+}
+
+export type CSVCell = string | number | null | undefined;
+
+export const CSV_BOM = '\uFEFF';
+
+// RFC 4180 with a BOM for Excel
+export const DEFAULT_CSV_DIALECT: CSVDialect = {
+  delimiter: ',',
+  decimalSeparator: '.',
+  lineEnding: '\r\n',
+  bom: true,
+  header: true,
+  quoting: 'minimal',
+};
+
+export const CSV_DIALECT_PRESETS: Record<string, CSVDialect> = {
+  'RFC 4180': DEFAULT_CSV_DIALECT,
+  // What Excel reads by default in locales with a decimal comma
+  'Excel (semicolon, decimal comma)': { ...DEFAULT_CSV_DIALECT, delimiter: ';', decimalSeparator: ',' },
+  'Tab separated': { ...DEFAULT_CSV_DIALECT, delimiter: '\t' },
+};
+
+// Semicolons and decimal commas where the locale writes 1,5 for one and a half
+export const localeCSVDialect = (locale?: string): CSVDialect => {
+  const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal')?.value;
+  return decimal === ',' ? CSV_DIALECT_PRESETS['Excel (semicolon, decimal comma)'] : DEFAULT_CSV_DIALECT;
+};
+
+const needsQuotes = (text: string, delimiter: CSVDelimiter) =>
+  text.includes(delimiter) || text.includes('"') || text.includes('\n') || text.includes('\r');
+
+export const formatCSVCell = (value: CSVCell, dialect: CSVDialect): string => {
+  const isNumber = typeof value === 'number';
+  let text = value == null ? '' : String(value);
+  if (isNumber && dialect.decimalSeparator !== '.') text = text.replace('.', dialect.decimalSeparator);
+  const quote =
+    dialect.quoting === 'all' || (dialect.quoting === 'non-numeric' && !isNumber) || needsQuotes(text, dialect.delimiter);
+  return quote ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatCSVRow = (cells: CSVCell[], dialect: CSVDialect): string =>
+  cells.map(cell => formatCSVCell(cell, dialect)).join(dialect.delimiter) + dialect.lineEnding;
+
+// Serializes rows whose first row is the header, one terminated record at a time
+export function* serializeCSV(rows: Iterable<CSVCell[]>, dialect: CSVDialect = DEFAULT_CSV_DIALECT): Generator<string> {
+  let first = true;
+  for (const row of rows) {
+    if (!first || dialect.header) yield formatCSVRow(row, dialect);
+    first = false;
+  }
+}
+
+export const convertRowsToCSV = (rows: Iterable<CSVCell[]>, dialect: CSVDialect = DEFAULT_CSV_DIALECT): string =>
+  [...serializeCSV(rows, dialect)].join('');
@@ -0,0 +1,32 @@
+// Turns serialized CSV records into a stream of UTF-8 chunks. Records are
+// pulled only when the consumer asks for the next chunk, so at most one chunk
+// of text exists at a time instead of the whole file.
+
+// Characters per chunk before encoding
+export const CSV_CHUNK_SIZE = 1 << 20;
+
+export const createCSVStream = (
+  records: Iterable<string>,
+  chunkSize: number = CSV_CHUNK_SIZE
+): ReadableStream<Uint8Array> => {
+  const iterator = records[Symbol.iterator]();
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      let chunk = '';
+      while (chunk.length < chunkSize) {
+        const next = iterator.next();
+        if (next.done) {
+          if (chunk) controller.enqueue(encoder.encode(chunk));
+          controller.close();
+          return;
+        }
+        chunk += next.value;
+      }
+      controller.enqueue(encoder.encode(chunk));
+    },
+    cancel() {
+      iterator.return?.();
+    },
+  });
+};
@@ -0,0 +1,61 @@
+// Triggers a browser download for the given blob
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// File-system safe base name derived from the uploaded file name
+export const safeBaseName = (fileName: string) => {
+  const baseName = fileName.replace(/\.[^/.]+$/, '');
+  return baseName.replace(/[^a-zA-Z0-9._-]+/g, '_') || 'export';
+};
+
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+// Destination for a streamed download. With the File System Access API the
+// chunks go straight to a file the user picks; elsewhere they are kept as Blob
+// parts and downloaded on close. Call it from the click handler: the picker
+// needs the user gesture. Cancelling the picker rejects with an AbortError.
+export const openDownloadStream = async (
+  fileName: string,
+  type: string,
+  extension: string = fileName.slice(fileName.lastIndexOf('.'))
+): Promise<WritableStream<BlobPart>> => {
+  const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (showSaveFilePicker) {
+    const handle = await showSaveFilePicker({
+      suggestedName: fileName,
+      types: [{ description: fileName, accept: { [type.split(';')[0]]: [extension] } }],
+    });
+    return (await handle.createWritable()) as WritableStream<BlobPart>;
+  }
+  const parts: BlobPart[] = [];
+  return new WritableStream<BlobPart>({
+    write(chunk) {
+      parts.push(chunk);
+    },
+    close() {
+      downloadBlob(new Blob(parts, { type }), fileName);
+    },
+  });
+};
+
+// Collects a stream into a Blob without joining its chunks
+export const streamToBlob = async (stream: ReadableStream<BlobPart>, type: string): Promise<Blob> => {
+  const parts: BlobPart[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return new Blob(parts, { type });
+    parts.push(value);
+  }
+};
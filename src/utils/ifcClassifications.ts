@@ -0,0 +1,118 @@
+// Classification references (Uniclass, OmniClass, NL-SfB, ...) attached through IfcRelAssociatesClassification
+import { IFCEntityIndex, getEntitiesOfType, getEntity, getReferencedEntities } from './ifcIndex';
+import type { IFCEntity } from './ifcParser';
+import { stepString } from './stepParser';
+
+export interface IFCClassification {
+  // Name of the IfcClassification, e.g. 'Uniclass 2015'; null for references without a source
+  system: string | null;
+  edition: string | null;
+  // Identification (IFC4) or ItemReference (IFC2X3), e.g. 'Ss_25_10_30'
+  code: string | null;
+  name: string | null;
+  description: string | null;
+}
+
+// Label used for references that don't lead back to an IfcClassification
+export const UNNAMED_CLASSIFICATION_SYSTEM = 'Classification';
+
+// Follows ReferencedSource up through nested references to the classification itself
+const findSystem = (index: IFCEntityIndex, reference: IFCEntity): IFCEntity | undefined => {
+  const visited = new Set<string>();
+  let current: IFCEntity | undefined = reference;
+  while (current && !visited.has(current.id)) {
+    if (current.type === 'IFCCLASSIFICATION') return current;
+    visited.add(current.id);
+    [current] = getReferencedEntities(index, current.id, 'ReferencedSource');
+  }
+  return undefined;
+};
+
+export const resolveClassification = (index: IFCEntityIndex, id: string): IFCClassification | null => {
+  const entity = getEntity(index, id);
+  if (!entity) return null;
+  const { attributes } = entity;
+  switch (entity.type) {
+    // A whole system associated without a specific item
+    case 'IFCCLASSIFICATION':
+      return {
+        system: stepString(attributes.Name),
+        edition: stepString(attributes.Edition),
+        code: null,
+        name: null,
+        description: stepString(attributes.Description),
+      };
+    case 'IFCCLASSIFICATIONREFERENCE': {
+      const system = findSystem(index, entity);
+      return {
+        system: system ? stepString(system.attributes.Name) : null,
+        edition: system ? stepString(system.attributes.Edition) : null,
+        code: stepString(attributes.Identification) ?? stepString(attributes.ItemReference),
+        name: stepString(attributes.Name),
+        description: stepString(attributes.Description),
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+// Sets `classifications` on every associated object and type object;
+// occurrences inherit from their type in attachTypeObjects
+export const attachClassifications = (index: IFCEntityIndex) => {
+  for (const rel of getEntitiesOfType(index, 'IFCRELASSOCIATESCLASSIFICATION')) {
+    const [relating] = getReferencedEntities(index, rel.id, 'RelatingClassification');
+    const classification = relating ? resolveClassification(index, relating.id) : null;
+    if (!classification) continue;
+    for (const target of getReferencedEntities(index, rel.id, 'RelatedObjects')) {
+      target.classifications = target.classifications ? [...target.classifications, classification] : [classification];
+    }
+  }
+};
+
+export const classificationSystem = (classification: IFCClassification): string =>
+  classification.system || UNNAMED_CLASSIFICATION_SYSTEM;
+
+// Splits a code into its hierarchy: 'Ss_25_10_30' -> ['Ss', 'Ss_25', 'Ss_25_10', 'Ss_25_10_30'],
+// '23-13 35 11' -> ['23', '23-13', '23-13 35', '23-13 35 11'], '21.12' -> ['21', '21.12']
+export const classificationPath = (code: string): string[] => {
+  const path: string[] = [];
+  const separator = /[_.\s-]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(code))) {
+    if (match.index > 0) path.push(code.slice(0, match.index));
+  }
+  if (!path.length || path[path.length - 1] !== code) path.push(code);
+  return path;
+};
+
+// 'Uniclass 2015: Ss_25_10_30 Timber framed wall systems; NL-SfB: 21.12'
+export const formatClassifications = (classifications: IFCClassification[] | undefined): string =>
+  (classifications || [])
+    .map(c => {
+      const item = [c.code, c.name ?? c.description].filter(Boolean).join(' ');
+      // Names often already carry the edition ('Uniclass 2015')
+      const edition = c.edition && !c.system?.includes(c.edition) ? c.edition : null;
+      const system = [c.system, edition].filter(Boolean).join(' ');
+      return system && item ? `${system}: ${item}` : system || item;
+    })
+    .join('; ');
+
+// Path of the first coded reference from `system`, empty when there is none
+export const classificationPathIn = (classifications: IFCClassification[], system: string): string[] => {
+  const match = classifications.find(c => c.code && classificationSystem(c) === system);
+  return match?.code ? classificationPath(match.code) : [];
+};
+
+// Systems used across the given references, each with the depth of its deepest code
+export const collectClassificationSystems = (lists: IFCClassification[][]): Map<string, number> => {
+  const systems = new Map<string, number>();
+  for (const list of lists) {
+    for (const c of list) {
+      if (!c.code) continue;
+      const system = classificationSystem(c);
+      systems.set(system, Math.max(systems.get(system) ?? 0, classificationPath(c.code).length));
+    }
+  }
+  return systems;
+};
@@ -0,0 +1,403 @@
+// User-defined CSV export templates: which entity types to export and which
+// columns to write. A column's path is one of
+//   @Field          a value derived from the model graph (see TEMPLATE_FIELDS)
+//   Set.Name        property Name of property set Set, or quantity Name of quantity set Set;
+//                   '*.Name' looks in every set
+//   Set             a whole property or quantity set as 'Name=value; ...', quantities
+//                   with their display unit
+//   Attribute       any other bare name is read as an entity attribute (GlobalId, ObjectType, Tag, ...)
+// A '{unit}' in a header is replaced by the display unit of the column's values.
+import type { IFCEntity, IFCParseResult } from './ifcParser';
+import { IFCSchemaName, detectSchema } from './ifcSchema';
+import { IFCQuantityKind, IFCQuantityValue, primaryQuantity } from './ifcQuantities';
+import type { IFCSelectedQuantities } from './ifcQuantitySources';
+import { IFCOpeningRule, formatOpenings, hostedOpenings } from './ifcOpenings';
+import { formatMaterialLabel, formatMaterialLayers } from './ifcMaterials';
+import { formatClassifications } from './ifcClassifications';
+import { IFCPropertySets, formatPropertySet, formatPropertyValue } from './ifcProperties';
+import {
+  coveringsOf,
+  entityName,
+  findStorey,
+  formatReinforcement,
+  formatSpatialStructure,
+  parentAssemblies,
+  reinforcementOf,
+} from './ifcSpatial';
+import { IFCDisplayKind, IFCUnitSystem, displayUnitLabel, toDisplayUnit } from './ifcUnits';
+import { formatStepValue } from './stepParser';
+import { CSVCell } from './csvFormat';
+
+export interface IFCExportColumn {
+  header: string;
+  path: string;
+}
+
+export interface IFCExportTemplate {
+  name: string;
+  // Upper-case IFC types to export; empty exports every entity
+  types: string[];
+  columns: IFCExportColumn[];
+}
+
+export interface TemplateExportOptions {
+  // Quantities are written in this system, which '{unit}' in the headers names
+  unitSystem?: IFCUnitSystem;
+  // Area, volume and bounding box selected the same way as in the model;
+  // without it area and volume come from the entity's own quantities
+  quantities?: IFCSelectedQuantities;
+  // Marks the hosted openings that are not deducted
+  openingRule?: IFCOpeningRule;
+}
+
+interface TemplateContext {
+  result: IFCParseResult;
+  schema: IFCSchemaName;
+  unitSystem: IFCUnitSystem;
+  quantities?: IFCSelectedQuantities;
+  openingRule?: IFCOpeningRule;
+}
+
+
+interface TemplateField {
+  label: string;
+  // Kind of the values, converted to the display unit
+  kind?: IFCDisplayKind;
+  get: (entity: IFCEntity, context: TemplateContext) => CSVCell;
+}
+
+const quantityValue = (entity: IFCEntity, kind: IFCQuantityKind) => primaryQuantity(entity.quantities, kind)?.value;
+
+const authoredDimension = (entity: IFCEntity, name: string) =>
+  entity.quantities?.find(q => q.source === 'authored' && q.name === name)?.value;
+
+export const TEMPLATE_FIELDS: Record<string, TemplateField> = {
+  ElementType: { label: 'IFC type', get: entity => entity.type },
+  TypeName: { label: 'Type object name', get: entity => entity.typeObject?.name },
+  PredefinedType: { label: 'Predefined type', get: entity => entity.predefinedType },
+  Level: {
+    label: 'Building storey',
+    get: (entity, { result }) => {
+      const storey = findStorey(result.index, entity.id);
+      return storey ? entityName(storey) : undefined;
+    },
+  },
+  Length: {
+    label: 'Length',
+    kind: 'length',
+    get: entity =>
+      quantityValue(entity, 'length') ?? entity.properties?.length ?? entity.properties?.height ?? entity.properties?.width,
+  },
+  Area: {
+    label: 'Area (quantity source applied)',
+    kind: 'area',
+    get: (entity, { quantities }) => {
+      const selected = quantities?.[entity.id];
+      return selected ? selected.area?.value : quantityValue(entity, 'area') ?? entity.properties?.area;
+    },
+  },
+  Volume: {
+    label: 'Volume (quantity source applied)',
+    kind: 'volume',
+    get: (entity, { quantities }) => {
+      const selected = quantities?.[entity.id];
+      return selected ? selected.volume?.value : quantityValue(entity, 'volume') ?? entity.properties?.volume;
+    },
+  },
+  Count: { label: 'Count', get: entity => quantityValue(entity, 'count') },
+  Weight: { label: 'Weight', kind: 'weight', get: entity => quantityValue(entity, 'weight') },
+  // Empty when the value is missing or a placeholder
+  AreaSource: {
+    label: 'Area source',
+    get: (entity, { quantities }) => {
+      const selected = quantities?.[entity.id];
+      return selected ? selected.area?.source : quantityValue(entity, 'area') !== undefined ? 'authored' : undefined;
+    },
+  },
+  VolumeSource: {
+    label: 'Volume source',
+    get: (entity, { quantities }) => {
+      const selected = quantities?.[entity.id];
+      return selected ? selected.volume?.source : quantityValue(entity, 'volume') !== undefined ? 'authored' : undefined;
+    },
+  },
+  // Measured on the geometry when available, otherwise the authored dimensions
+  BoundingBox: {
+    label: 'Bounding box (L × W × H)',
+    get: (entity, { quantities, unitSystem }) => {
+      const dimensions = quantities?.[entity.id]?.boundingBox ??
+        ['Length', 'Width', 'Height'].map(name => authoredDimension(entity, name));
+      if (dimensions.some(d => d === undefined)) return undefined;
+      const values = dimensions.map(d => toDisplayUnit(d!, 'length', unitSystem).toFixed(3));
+      return `${values.join(' × ')} ${displayUnitLabel('length', unitSystem)}`;
+    },
+  },
+  SpatialStructure: {
+    label: 'Spatial structure and zones',
+    get: (entity, { result, schema }) => formatSpatialStructure(result.index, schema, entity.id),
+  },
+  Material: { label: 'Material', get: entity => formatMaterialLabel(entity.material) },
+  MaterialLayerSet: {
+    label: 'Material layers',
+    get: (entity, { unitSystem }) => formatMaterialLayers(entity.material, unitSystem),
+  },
+  Classification: { label: 'Classification', get: entity => formatClassifications(entity.classifications) },
+  ElementAssembly: {
+    label: 'Parent element assemblies',
+    get: (entity, { result, schema }) => parentAssemblies(result.index, schema, entity.id).map(entityName).join(' > '),
+  },
+  Openings: {
+    label: 'Hosted openings',
+    get: (entity, { result, openingRule, unitSystem }) =>
+      formatOpenings(hostedOpenings(result.index, entity, openingRule), unitSystem),
+  },
+  Reinforcement: {
+    label: 'Reinforcement',
+    get: (entity, { result, schema, unitSystem }) =>
+      formatReinforcement(reinforcementOf(result.index, schema, entity.id), result.units.length, unitSystem),
+  },
+  Coverings: {
+    label: 'Coverings',
+    get: (entity, { result }) =>
+      coveringsOf(result.index, entity.id)
+        .map(c => (c.predefinedType ? `${entityName(c)} (${c.predefinedType})` : entityName(c)))
+        .join('; '),
+  },
+};
+
+export const STRUCTURAL_TEMPLATE: IFCExportTemplate = {
+  name: 'Structural',
+  // The StandardCase subtypes are what most IFC2X3 exporters write
+  types: [
+    'IFCBEAM',
+    'IFCBEAMSTANDARDCASE',
+    'IFCCOLUMN',
+    'IFCCOLUMNSTANDARDCASE',
+    'IFCSLAB',
+    'IFCSLABSTANDARDCASE',
+    'IFCMEMBER',
+    'IFCMEMBERSTANDARDCASE',
+    'IFCBRACE',
+    'IFCTRUSS',
+    'IFCFOOTING',
+    'IFCPILE',
+    'IFCWALL',
+    'IFCWALLSTANDARDCASE',
+    'IFCPLATE',
+    'IFCPLATESTANDARDCASE',
+  ],
+  columns: [
+    { header: 'GlobalId', path: 'GlobalId' },
+    { header: 'Name', path: 'Name' },
+    { header: 'ObjectType', path: 'ObjectType' },
+    { header: 'TypeName', path: '@TypeName' },
+    { header: 'IfcElementType', path: '@ElementType' },
+    { header: 'IfcBuildingStorey (Level)', path: '@Level' },
+    { header: 'IfcQuantityLength ({unit})', path: '@Length' },
+    { header: 'IfcQuantityArea ({unit})', path: '@Area' },
+    { header: 'IfcQuantityVolume ({unit})', path: '@Volume' },
+    { header: 'IfcQuantityCount', path: '@Count' },
+    { header: 'IfcQuantityWeight ({unit})', path: '@Weight' },
+    { header: 'AreaSource', path: '@AreaSource' },
+    { header: 'VolumeSource', path: '@VolumeSource' },
+    { header: 'IfcBoundingBox', path: '@BoundingBox' },
+    { header: 'IfcSpatialStructureElement (Building, Storey, Zone)', path: '@SpatialStructure' },
+    { header: 'IfcMaterial', path: '@Material' },
+    { header: 'IfcMaterialLayerSet', path: '@MaterialLayerSet' },
+    { header: 'IfcClassificationReference', path: '@Classification' },
+    { header: 'Pset_QuantityTakeOff', path: 'Pset_QuantityTakeOff' },
+    { header: 'Pset_WallCommon', path: 'Pset_WallCommon' },
+    { header: 'Pset_BeamCommon', path: 'Pset_BeamCommon' },
+    { header: 'Pset_ColumnCommon', path: 'Pset_ColumnCommon' },
+    { header: 'Pset_MaterialQuantities', path: 'Pset_MaterialQuantities' },
+    { header: 'IfcElementAssembly', path: '@ElementAssembly' },
+    { header: 'IfcOpeningElement', path: '@Openings' },
+    { header: 'IfcReinforcingElement', path: '@Reinforcement' },
+    { header: 'IfcCovering', path: '@Coverings' },
+  ],
+};
+
+// Starting points for the other disciplines
+export const BUILT_IN_TEMPLATES: IFCExportTemplate[] = [
+  STRUCTURAL_TEMPLATE,
+  {
+    name: 'Architecture',
+    types: [
+      'IFCWALL', 'IFCWALLSTANDARDCASE', 'IFCCURTAINWALL', 'IFCSLAB', 'IFCSLABSTANDARDCASE', 'IFCROOF', 'IFCDOOR', 'IFCWINDOW',
+      'IFCSTAIR', 'IFCRAILING', 'IFCCOVERING', 'IFCSPACE',
+    ],
+    columns: [
+      { header: 'GlobalId', path: 'GlobalId' },
+      { header: 'Name', path: 'Name' },
+      { header: 'IfcElementType', path: '@ElementType' },
+      { header: 'TypeName', path: '@TypeName' },
+      { header: 'Level', path: '@Level' },
+      { header: 'Area ({unit})', path: '@Area' },
+      { header: 'Volume ({unit})', path: '@Volume' },
+      { header: 'IsExternal', path: '*.IsExternal' },
+      { header: 'FireRating', path: '*.FireRating' },
+      { header: 'AcousticRating', path: '*.AcousticRating' },
+      { header: 'Material', path: '@Material' },
+      { header: 'Classification', path: '@Classification' },
+      { header: 'Openings', path: '@Openings' },
+      { header: 'Coverings', path: '@Coverings' },
+    ],
+  },
+  {
+    name: 'MEP',
+    types: [
+      'IFCDUCTSEGMENT', 'IFCDUCTFITTING', 'IFCPIPESEGMENT', 'IFCPIPEFITTING', 'IFCCABLECARRIERSEGMENT',
+      'IFCCABLESEGMENT', 'IFCAIRTERMINAL', 'IFCSANITARYTERMINAL', 'IFCLIGHTFIXTURE', 'IFCVALVE', 'IFCDAMPER',
+      'IFCPUMP', 'IFCFAN', 'IFCFLOWSEGMENT', 'IFCFLOWFITTING', 'IFCFLOWTERMINAL',
+    ],
+    columns: [
+      { header: 'GlobalId', path: 'GlobalId' },
+      { header: 'Name', path: 'Name' },
+      { header: 'IfcElementType', path: '@ElementType' },
+      { header: 'PredefinedType', path: '@PredefinedType' },
+      { header: 'TypeName', path: '@TypeName' },
+      { header: 'Level', path: '@Level' },
+      { header: 'Length ({unit})', path: '@Length' },
+      { header: 'Count', path: '@Count' },
+      { header: 'Material', path: '@Material' },
+      { header: 'Classification', path: '@Classification' },
+      { header: 'SpatialStructure', path: '@SpatialStructure' },
+    ],
+  },
+];
+
+// Value of a quantity or property named by a 'Set.Name' path, with the quantity's kind
+const setMember = (entity: IFCEntity, set: string, name: string): { value: CSVCell; kind?: IFCQuantityKind } => {
+  const quantity = entity.quantities?.find(q => (set === '*' || q.set === set) && q.name === name);
+  if (quantity) return { value: quantity.value, kind: quantity.kind };
+  const psets = set === '*' ? Object.values(entity.psets || {}) : [entity.psets?.[set]];
+  for (const pset of psets) {
+    if (pset && name in pset) return { value: formatPropertyValue(pset[name]) };
+  }
+  return { value: undefined };
+};
+
+const isDisplayKind = (kind: IFCQuantityKind | undefined): kind is IFCDisplayKind =>
+  kind === 'length' || kind === 'area' || kind === 'volume' || kind === 'weight';
+
+// Quantities of mixed kinds share the cell, so each value carries its display unit
+const formatSetQuantity = ({ name, value, kind }: IFCQuantityValue, unitSystem: IFCUnitSystem) =>
+  isDisplayKind(kind)
+    ? `${name}=${toDisplayUnit(value, kind, unitSystem)} ${displayUnitLabel(kind, unitSystem)}`
+    : `${name}=${value}`;
+
+const wholeSet = (entity: IFCEntity, set: string, unitSystem: IFCUnitSystem): string | undefined => {
+  if (entity.psets?.[set]) return formatPropertySet(entity.psets[set]);
+  const quantities = entity.quantities?.filter(q => q.set === set);
+  return quantities?.length ? quantities.map(q => formatSetQuantity(q, unitSystem)).join('; ') : undefined;
+};
+
+const resolvePath = (entity: IFCEntity, path: string, context: TemplateContext): CSVCell => {
+  if (path.startsWith('@')) {
+    const field = TEMPLATE_FIELDS[path.slice(1)];
+    const value = field?.get(entity, context);
+    return field?.kind && typeof value === 'number' ? toDisplayUnit(value, field.kind, context.unitSystem) : value;
+  }
+  const dot = path.indexOf('.');
+  if (dot > 0) {
+    const { value, kind } = setMember(entity, path.slice(0, dot), path.slice(dot + 1));
+    return isDisplayKind(kind) && typeof value === 'number' ? toDisplayUnit(value, kind, context.unitSystem) : value;
+  }
+  const attribute = entity.attributes[path];
+  return attribute !== undefined ? formatStepValue(attribute) : wholeSet(entity, path, context.unitSystem);
+};
+
+// Unit of a column's values: fixed for @fields, taken from the first matching quantity otherwise
+const columnKind = (entities: IFCEntity[], path: string): IFCDisplayKind | undefined => {
+  if (path.startsWith('@')) return TEMPLATE_FIELDS[path.slice(1)]?.kind;
+  const dot = path.indexOf('.');
+  if (dot <= 0) return undefined;
+  const set = path.slice(0, dot);
+  const name = path.slice(dot + 1);
+  for (const entity of entities) {
+    const quantity = entity.quantities?.find(q => (set === '*' || q.set === set) && q.name === name);
+    if (quantity) return isDisplayKind(quantity.kind) ? quantity.kind : undefined;
+  }
+  return undefined;
+};
+
+export const resolveHeader = (entities: IFCEntity[], column: IFCExportColumn, unitSystem: IFCUnitSystem): string => {
+  if (!column.header.includes('{unit}')) return column.header;
+  const kind = columnKind(entities, column.path);
+  return kind
+    ? column.header.replace(/\{unit\}/g, displayUnitLabel(kind, unitSystem))
+    : column.header.replace(/\s*\(\{unit\}\)/g, '').replace(/\{unit\}/g, '');
+};
+
+// Relationship fields are resolved through the parse result's index
+export function* iterateCSVTemplate(
+  entities: IFCEntity[],
+  result: IFCParseResult,
+  template: IFCExportTemplate,
+  { unitSystem = 'metric', quantities, openingRule }: TemplateExportOptions = {}
+): Generator<CSVCell[]> {
+  const context: TemplateContext = {
+    result,
+    schema: detectSchema(result.header.schemaIdentifiers),
+    unitSystem,
+    quantities,
+    openingRule,
+  };
+  yield template.columns.map(column => resolveHeader(entities, column, unitSystem));
+  for (const entity of entities) {
+    yield template.columns.map(column => resolvePath(entity, column.path, context));
+  }
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Validates templates read from JSON: one template or an array of them
+export const parseExportTemplates = (json: unknown): IFCExportTemplate[] => {
+  const list = Array.isArray(json) ? json : [json];
+  return list.map((item, i) => {
+    const template = item as Partial<IFCExportTemplate> | null;
+    if (!template || typeof template.name !== 'string' || !template.name.trim()) {
+      throw new Error(`Template ${i + 1} has no name`);
+    }
+    if (template.types !== undefined && !isStringArray(template.types)) {
+      throw new Error(`Template "${template.name}": types must be a list of IFC type names`);
+    }
+    if (
+      !Array.isArray(template.columns) ||
+      !template.columns.every(c => c && typeof c.header === 'string' && typeof c.path === 'string')
+    ) {
+      throw new Error(`Template "${template.name}": columns must be a list of { header, path }`);
+    }
+    return {
+      name: template.name.trim(),
+      types: (template.types ?? []).map(type => type.trim().toUpperCase()).filter(Boolean),
+      columns: template.columns.map(({ header, path }) => ({ header, path: path.trim() })),
+    };
+  });
+};
+
+const COMMON_ATTRIBUTES = ['GlobalId', 'Name', 'Description', 'ObjectType', 'Tag', 'LongName'];
+
+// Paths offered while editing a template: fields, common attributes, and the
+// property and quantity sets found on the given elements
+export const templatePathSuggestions = (
+  elements: { psets?: IFCPropertySets; quantities?: IFCQuantityValue[] }[]
+): string[] => {
+  const setPaths = new Set<string>();
+  for (const { psets, quantities } of elements) {
+    for (const [set, properties] of Object.entries(psets || {})) {
+      setPaths.add(set);
+      for (const name of Object.keys(properties)) setPaths.add(`${set}.${name}`);
+    }
+    for (const { set, name } of quantities || []) {
+      setPaths.add(set);
+      setPaths.add(`${set}.${name}`);
+    }
+  }
+  return [
+    ...Object.keys(TEMPLATE_FIELDS).map(field => `@${field}`),
+    ...COMMON_ATTRIBUTES,
+    ...[...setPaths].sort(),
+  ];
+};
@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+import type { IFCMesh } from './ifcMeshes';
+
+// Placeholder geometry and materials per IFC type. Shared per type so that
+// large models do not allocate one buffer per element. The helpers at the
+// bottom turn real meshes received from the worker into THREE objects.
+
+const geometryCache = new Map<string, THREE.BufferGeometry>();
+const materialCache = new Map<string, THREE.Material>();
+
+const createGeometryForType = (type: string): THREE.BufferGeometry => {
+  switch (type) {
+    case 'IFCWALL':
+      return new THREE.BoxGeometry(0.2, 3, 4);
+    case 'IFCDOOR':
+      return new THREE.BoxGeometry(0.1, 2.1, 0.8);
+    case 'IFCWINDOW':
+      return new THREE.BoxGeometry(0.05, 1.5, 1.2);
+    case 'IFCSPACE':
+      return new THREE.BoxGeometry(4, 0.1, 4);
+    case 'IFCCOLUMN':
+      return new THREE.CylinderGeometry(0.2, 0.2, 3);
+    case 'IFCBEAM':
+      return new THREE.BoxGeometry(4, 0.3, 0.3);
+    default:
+      return new THREE.BoxGeometry(1, 1, 1);
+  }
+};
+
+const createMaterialForType = (type: string): THREE.Material => {
+  const materials: Record<string, number> = {
+    IFCWALL: 0x8B4513,
+    IFCDOOR: 0x654321,
+    IFCWINDOW: 0x87CEEB,
+    IFCSPACE: 0x90EE90,
+    IFCCOLUMN: 0x808080,
+    IFCBEAM: 0x8B4513,
+    default: 0x888888
+  };
+  
+  return new THREE.MeshPhongMaterial({
+    color: materials[type] || materials.default,
+    transparent: type === 'IFCWINDOW',
+    opacity: type === 'IFCWINDOW' ? 0.6 : 1
+  });
+};
+
+export const getGeometryForType = (type: string): THREE.BufferGeometry => {
+  let geometry = geometryCache.get(type);
+  if (!geometry) {
+    geometry = createGeometryForType(type);
+    geometryCache.set(type, geometry);
+  }
+  return geometry;
+};
+
+export const getMaterialForType = (type: string): THREE.Material => {
+  let material = materialCache.get(type);
+  if (!material) {
+    material = createMaterialForType(type);
+    materialCache.set(type, material);
+  }
+  return material;
+};
+
+// Shared materials for real element meshes, keyed by opacity
+const meshMaterialCache = new Map<number, THREE.Material>();
+
+export const getMeshMaterial = (opacity: number): THREE.Material => {
+  let material = meshMaterialCache.get(opacity);
+  if (!material) {
+    material = new THREE.MeshPhongMaterial({
+      vertexColors: true,
+      transparent: opacity < 1,
+      opacity,
+      depthWrite: opacity >= 1,
+      side: THREE.DoubleSide,
+    });
+    meshMaterialCache.set(opacity, material);
+  }
+  return material;
+};
+
+export const selectedMaterial = new THREE.MeshBasicMaterial({ color: 0xff6b35, side: THREE.DoubleSide });
+
+// Builds a BufferGeometry from mesh arrays received from the worker; the caller disposes it
+export const createMeshGeometry = (mesh: IFCMesh): THREE.BufferGeometry => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(mesh.normals, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(mesh.colors, 3));
+  geometry.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+  geometry.computeBoundingSphere();
+  return geometry;
+};
+
+// World-space bounds of all element meshes, or null when none have geometry
+export const computeMeshBounds = (meshes: IFCMesh[]): THREE.Box3 | null => {
+  if (meshes.length === 0) return null;
+  const box = new THREE.Box3();
+  const point = new THREE.Vector3();
+  for (const { positions } of meshes) {
+    for (let i = 0; i < positions.length; i += 3) {
+      box.expandByPoint(point.set(positions[i], positions[i + 1], positions[i + 2]));
+    }
+  }
+  return box.isEmpty() ? null : box;
+};
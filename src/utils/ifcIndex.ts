@@ -0,0 +1,93 @@
+// Forward and inverse reference index over parsed IFC entities, built while
+// the file streams so relationship lookups don't need to scan the model
+import type { IFCEntity } from './ifcParser';
+import { StepValue } from './stepParser';
+
+// One incoming reference: entity `id` points at the indexed entity through `attribute`
+export interface IFCReference {
+  id: string;
+  attribute: string;
+}
+
+export interface IFCEntityIndex {
+  byId: Map<string, IFCEntity>;
+  byType: Map<string, string[]>;
+  // entity id -> attribute -> referenced entity ids
+  forward: Map<string, Record<string, string[]>>;
+  // entity id -> entities referencing it
+  inverse: Map<string, IFCReference[]>;
+}
+
+export const createEntityIndex = (): IFCEntityIndex => ({
+  byId: new Map(),
+  byType: new Map(),
+  forward: new Map(),
+  inverse: new Map(),
+});
+
+const collectRefs = (value: StepValue, out: string[]) => {
+  switch (value.kind) {
+    case 'ref':
+      out.push(value.id);
+      break;
+    case 'list':
+      value.items.forEach(item => collectRefs(item, out));
+      break;
+    case 'typed':
+      collectRefs(value.value, out);
+      break;
+  }
+};
+
+export const addToIndex = (index: IFCEntityIndex, entity: IFCEntity) => {
+  index.byId.set(entity.id, entity);
+  const ofType = index.byType.get(entity.type);
+  if (ofType) ofType.push(entity.id);
+  else index.byType.set(entity.type, [entity.id]);
+
+  let references: Record<string, string[]> | undefined;
+  for (const [attribute, value] of Object.entries(entity.attributes)) {
+    const ids: string[] = [];
+    collectRefs(value, ids);
+    if (ids.length === 0) continue;
+    (references ??= {})[attribute] = ids;
+    for (const target of ids) {
+      const incoming = index.inverse.get(target);
+      const reference = { id: entity.id, attribute };
+      if (incoming) incoming.push(reference);
+      else index.inverse.set(target, [reference]);
+    }
+  }
+  if (references) index.forward.set(entity.id, references);
+};
+
+export const getEntity = (index: IFCEntityIndex, id: string | null | undefined): IFCEntity | undefined =>
+  id ? index.byId.get(id) : undefined;
+
+export const getEntitiesOfType = (index: IFCEntityIndex, type: string): IFCEntity[] =>
+  (index.byType.get(type) || []).map(id => index.byId.get(id)!);
+
+// Entities referenced by `id`, optionally through one attribute only
+export const getReferencedEntities = (index: IFCEntityIndex, id: string, attribute?: string): IFCEntity[] => {
+  const references = index.forward.get(id);
+  if (!references) return [];
+  const ids = attribute ? references[attribute] || [] : Object.values(references).flat();
+  return ids.map(target => index.byId.get(target)).filter((e): e is IFCEntity => !!e);
+};
+
+// Entities pointing at `id`, optionally restricted to one entity type and attribute,
+// e.g. the IFCRELDEFINESBYPROPERTIES listing an element in RelatedObjects
+export const getReferencingEntities = (
+  index: IFCEntityIndex,
+  id: string,
+  type?: string,
+  attribute?: string
+): IFCEntity[] => {
+  const result: IFCEntity[] = [];
+  for (const reference of index.inverse.get(id) || []) {
+    if (attribute && reference.attribute !== attribute) continue;
+    const entity = index.byId.get(reference.id);
+    if (entity && (!type || entity.type === type)) result.push(entity);
+  }
+  return result;
+};
@@ -0,0 +1,192 @@
+// Materials attached to objects and type objects through IfcRelAssociatesMaterial
+import { IFCEntityIndex, getEntitiesOfType, getEntity, getReferencedEntities } from './ifcIndex';
+import type { IFCEntity } from './ifcParser';
+import { stepNumber, stepString } from './stepParser';
+import { IFCUnitSystem, formatQuantity } from './ifcUnits';
+
+export interface IFCMaterialLayer {
+  material: string | null;
+  name: string | null;
+  // In metres
+  thickness: number | null;
+}
+
+export interface IFCMaterialProfile {
+  material: string | null;
+  name: string | null;
+  profile: string | null;
+}
+
+export interface IFCMaterialConstituent {
+  material: string | null;
+  name: string | null;
+  fraction: number | null;
+  category: string | null;
+}
+
+export type IFCMaterialDefinition =
+  | { kind: 'material'; name: string; category: string | null }
+  | { kind: 'layer-set'; name: string | null; layers: IFCMaterialLayer[]; totalThickness: number }
+  | { kind: 'profile-set'; name: string | null; profiles: IFCMaterialProfile[] }
+  | { kind: 'constituent-set'; name: string | null; constituents: IFCMaterialConstituent[] }
+  | { kind: 'list'; materials: string[] };
+
+const materialName = (index: IFCEntityIndex, owner: IFCEntity, attribute = 'Material'): string | null => {
+  const [material] = getReferencedEntities(index, owner.id, attribute);
+  return material ? stepString(material.attributes.Name) ?? `Material_${material.id}` : null;
+};
+
+const readLayer = (index: IFCEntityIndex, layer: IFCEntity, lengthScale: number): IFCMaterialLayer => {
+  const thickness = stepNumber(layer.attributes.LayerThickness);
+  return {
+    material: materialName(index, layer),
+    name: stepString(layer.attributes.Name),
+    thickness: thickness !== null ? thickness * lengthScale : null,
+  };
+};
+
+const readLayerSet = (index: IFCEntityIndex, set: IFCEntity, lengthScale: number): IFCMaterialDefinition => {
+  const layers = getReferencedEntities(index, set.id, 'MaterialLayers').map(layer => readLayer(index, layer, lengthScale));
+  return {
+    kind: 'layer-set',
+    name: stepString(set.attributes.LayerSetName),
+    layers,
+    totalThickness: layers.reduce((sum, layer) => sum + (layer.thickness || 0), 0),
+  };
+};
+
+const readProfile = (index: IFCEntityIndex, profile: IFCEntity): IFCMaterialProfile => {
+  const [shape] = getReferencedEntities(index, profile.id, 'Profile');
+  return {
+    material: materialName(index, profile),
+    name: stepString(profile.attributes.Name),
+    // ProfileName is the second attribute of every IfcProfileDef subtype
+    profile: shape ? stepString(shape.args[1]) : null,
+  };
+};
+
+const readProfileSet = (index: IFCEntityIndex, set: IFCEntity): IFCMaterialDefinition => ({
+  kind: 'profile-set',
+  name: stepString(set.attributes.Name),
+  profiles: getReferencedEntities(index, set.id, 'MaterialProfiles').map(profile => readProfile(index, profile)),
+});
+
+// lengthScale converts layer thicknesses from the project length unit to metres
+export const resolveMaterial = (index: IFCEntityIndex, id: string, lengthScale = 1): IFCMaterialDefinition | null => {
+  const entity = getEntity(index, id);
+  if (!entity) return null;
+  const { attributes } = entity;
+  switch (entity.type) {
+    case 'IFCMATERIAL':
+      return { kind: 'material', name: stepString(attributes.Name) ?? `Material_${id}`, category: stepString(attributes.Category) };
+    case 'IFCMATERIALLAYERSET':
+      return readLayerSet(index, entity, lengthScale);
+    case 'IFCMATERIALLAYER':
+    case 'IFCMATERIALLAYERWITHOFFSETS': {
+      const layer = readLayer(index, entity, lengthScale);
+      return { kind: 'layer-set', name: null, layers: [layer], totalThickness: layer.thickness || 0 };
+    }
+    case 'IFCMATERIALPROFILESET':
+      return readProfileSet(index, entity);
+    case 'IFCMATERIALPROFILE':
+      return { kind: 'profile-set', name: null, profiles: [readProfile(index, entity)] };
+    case 'IFCMATERIALCONSTITUENTSET':
+      return {
+        kind: 'constituent-set',
+        name: stepString(attributes.Name),
+        constituents: getReferencedEntities(index, id, 'MaterialConstituents').map(constituent => ({
+          material: materialName(index, constituent),
+          name: stepString(constituent.attributes.Name),
+          fraction: stepNumber(constituent.attributes.Fraction),
+          category: stepString(constituent.attributes.Category),
+        })),
+      };
+    case 'IFCMATERIALLIST':
+      return {
+        kind: 'list',
+        materials: getReferencedEntities(index, id, 'Materials').map(m => stepString(m.attributes.Name) ?? `Material_${m.id}`),
+      };
+    // Usages point at the shared set; the offsets they add don't change the material
+    case 'IFCMATERIALLAYERSETUSAGE': {
+      const [set] = getReferencedEntities(index, id, 'ForLayerSet');
+      return set ? resolveMaterial(index, set.id, lengthScale) : null;
+    }
+    case 'IFCMATERIALPROFILESETUSAGE':
+    case 'IFCMATERIALPROFILESETUSAGETAPERING': {
+      const [set] = getReferencedEntities(index, id, 'ForProfileSet');
+      return set ? resolveMaterial(index, set.id) : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Sets `material` on every associated object and type object; occurrences
+// inherit from their type in attachTypeObjects
+export const attachMaterials = (index: IFCEntityIndex, lengthScale: number) => {
+  for (const rel of getEntitiesOfType(index, 'IFCRELASSOCIATESMATERIAL')) {
+    const [relating] = getReferencedEntities(index, rel.id, 'RelatingMaterial');
+    const material = relating ? resolveMaterial(index, relating.id, lengthScale) : null;
+    if (!material) continue;
+    for (const target of getReferencedEntities(index, rel.id, 'RelatedObjects')) target.material = material;
+  }
+};
+
+const joinNames = (names: (string | null)[]) => names.filter((n): n is string => !!n).join(' / ');
+
+// Single label used to group elements by material
+export const formatMaterialLabel = (material: IFCMaterialDefinition | undefined): string => {
+  if (!material) return '';
+  switch (material.kind) {
+    case 'material':
+      return material.name;
+    case 'layer-set':
+      return material.name || joinNames(material.layers.map(l => l.material));
+    case 'profile-set':
+      return material.name || joinNames(material.profiles.map(p => p.material));
+    case 'constituent-set':
+      return material.name || joinNames(material.constituents.map(c => c.material));
+    case 'list':
+      return joinNames(material.materials);
+  }
+};
+
+// 'Brick (0.102 m); Insulation (0.050 m)' for layer sets, empty for anything else
+export const formatMaterialLayers = (material: IFCMaterialDefinition | undefined, system: IFCUnitSystem = 'metric'): string =>
+  material?.kind === 'layer-set'
+    ? material.layers
+        .map(l => `${l.material ?? l.name ?? ''} (${l.thickness !== null ? formatQuantity(l.thickness, 'length', system, 3) : ''})`)
+        .join('; ')
+    : '';
+
+// One layer's part of an element's quantities
+export interface IFCLayerQuantity {
+  material: string;
+  thickness: number | null;
+  // Fraction of the element's net volume taken by this layer (thickness / total thickness)
+  share: number;
+  volume: number | null;
+  // Every layer spans the element's full face, so this is the element area itself
+  area: number | null;
+}
+
+// Splits an element's net volume over its material layers by thickness.
+// Layers without a thickness share equally when no layer has one.
+export const computeLayerBreakdown = (
+  material: IFCMaterialDefinition | undefined,
+  volume: number | undefined,
+  area: number | undefined
+): IFCLayerQuantity[] => {
+  if (material?.kind !== 'layer-set' || material.layers.length === 0) return [];
+  const { layers, totalThickness } = material;
+  return layers.map((layer, i) => {
+    const share = totalThickness > 0 ? (layer.thickness || 0) / totalThickness : 1 / layers.length;
+    return {
+      material: layer.material ?? layer.name ?? `Layer ${i + 1}`,
+      thickness: layer.thickness,
+      share,
+      volume: volume !== undefined ? volume * share : null,
+      area: area ?? null,
+    };
+  });
+};
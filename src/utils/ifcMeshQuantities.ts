@@ -0,0 +1,108 @@
+// Quantities measured on an element's triangulated geometry, for elements
+// whose file declares none. Everything here is flagged 'computed'.
+import { IFCMesh } from './ifcMeshes';
+import { IFCQuantityKind, IFCQuantityValue } from './ifcQuantities';
+
+export const COMPUTED_QUANTITY_SET = 'Computed_Geometry';
+
+// Faces whose normal is within this of vertical count as floor/roof faces,
+// within this of horizontal as side faces
+const UP_THRESHOLD = 0.7;
+const SIDE_THRESHOLD = 0.3;
+
+// Vertices closer than this (in metres) are treated as one when checking closedness
+const WELD_TOLERANCE = 1e-4;
+
+// web-ifc duplicates vertices per face, so edges are matched on welded positions.
+// A closed mesh uses every edge an even number of times.
+const isClosed = (positions: Float32Array, indices: Uint32Array): boolean => {
+  const ids = new Map<string, number>();
+  const weld = (i: number) => {
+    const key = `${Math.round(positions[i * 3] / WELD_TOLERANCE)},${Math.round(positions[i * 3 + 1] / WELD_TOLERANCE)},${Math.round(positions[i * 3 + 2] / WELD_TOLERANCE)}`;
+    let id = ids.get(key);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(key, id);
+    }
+    return id;
+  };
+  const edges = new Map<string, number>();
+  for (let t = 0; t < indices.length; t += 3) {
+    const corners = [weld(indices[t]), weld(indices[t + 1]), weld(indices[t + 2])];
+    for (let e = 0; e < 3; e++) {
+      const a = corners[e];
+      const b = corners[(e + 1) % 3];
+      if (a === b) continue;
+      const key = a < b ? `${a}_${b}` : `${b}_${a}`;
+      edges.set(key, (edges.get(key) ?? 0) + 1);
+    }
+  }
+  for (const count of edges.values()) if (count % 2) return false;
+  return edges.size > 0;
+};
+
+const computed = (name: string, kind: IFCQuantityKind, value: number): IFCQuantityValue => ({
+  set: COMPUTED_QUANTITY_SET,
+  name,
+  kind,
+  value,
+  unit: null,
+  source: 'computed',
+});
+
+// Volume (signed tetrahedra, closed meshes only), total surface area, footprint
+// (upward faces projected on the ground plane), side area (one side of the
+// near-vertical faces) and bounding box dimensions, all in SI units
+export const computeMeshQuantities = (mesh: IFCMesh): IFCQuantityValue[] => {
+  const { positions, indices } = mesh;
+  if (indices.length < 3) return [];
+  let signedVolume = 0;
+  let surface = 0;
+  let footprint = 0;
+  let vertical = 0;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+
+  for (let t = 0; t < indices.length; t += 3) {
+    const a = indices[t] * 3, b = indices[t + 1] * 3, c = indices[t + 2] * 3;
+    const ax = positions[a], ay = positions[a + 1], az = positions[a + 2];
+    const bx = positions[b], by = positions[b + 1], bz = positions[b + 2];
+    const cx = positions[c], cy = positions[c + 1], cz = positions[c + 2];
+    // Twice the triangle's area vector
+    const ux = bx - ax, uy = by - ay, uz = bz - az;
+    const vx = cx - ax, vy = cy - ay, vz = cz - az;
+    const nx = uy * vz - uz * vy;
+    const ny = uz * vx - ux * vz;
+    const nz = ux * vy - uy * vx;
+    const area = Math.hypot(nx, ny, nz) / 2;
+    surface += area;
+    signedVolume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+    if (area > 0) {
+      const up = ny / (area * 2);
+      if (up > UP_THRESHOLD) footprint += ny / 2;
+      else if (Math.abs(up) < SIDE_THRESHOLD) vertical += area;
+    }
+  }
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], positions[i + axis]);
+      max[axis] = Math.max(max[axis], positions[i + axis]);
+    }
+  }
+  // Y is up; length is the longer horizontal extent
+  const dx = max[0] - min[0], dy = max[1] - min[1], dz = max[2] - min[2];
+
+  const quantities = [
+    computed('Length', 'length', Math.max(dx, dz)),
+    computed('Width', 'length', Math.min(dx, dz)),
+    computed('Height', 'length', dy),
+    computed('SurfaceArea', 'area', surface),
+    computed('FootprintArea', 'area', footprint),
+    computed('SideArea', 'area', vertical / 2),
+  ];
+  if (isClosed(positions, indices)) quantities.push(computed('Volume', 'volume', Math.abs(signedVolume)));
+  return quantities;
+};
+
+export const computedQuantity = (quantities: IFCQuantityValue[], name: string): number | undefined =>
+  quantities.find(q => q.source === 'computed' && q.name === name)?.value;
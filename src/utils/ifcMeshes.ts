@@ -0,0 +1,106 @@
+// Triangulated element geometry from web-ifc. Every placed geometry of an
+// element is transformed into world space and merged into one set of plain
+// typed arrays, so the result can be transferred out of the worker and turned
+// into a single BufferGeometry per element.
+import wasmUrl from '/node_modules/web-ifc/web-ifc.wasm?url';
+import { IFCProcessingOptions, throwIfAborted } from './ifcProgress';
+
+export interface IFCMesh {
+  // World space, Y up, metres
+  positions: Float32Array;
+  normals: Float32Array;
+  // Per-vertex RGB taken from the style of each placed geometry
+  colors: Float32Array;
+  indices: Uint32Array;
+  // Lowest alpha among the element's styles; glazing makes the whole element translucent
+  opacity: number;
+}
+
+interface MeshPart {
+  vertices: Float32Array;
+  indices: Uint32Array;
+  matrix: number[];
+  color: { x: number; y: number; z: number; w: number };
+}
+
+// web-ifc vertex layout: x, y, z, nx, ny, nz
+const VERTEX_STRIDE = 6;
+
+const mergeParts = (parts: MeshPart[]): IFCMesh => {
+  const vertexCount = parts.reduce((n, p) => n + p.vertices.length / VERTEX_STRIDE, 0);
+  const indexCount = parts.reduce((n, p) => n + p.indices.length, 0);
+  const positions = new Float32Array(vertexCount * 3);
+  const normals = new Float32Array(vertexCount * 3);
+  const colors = new Float32Array(vertexCount * 3);
+  const indices = new Uint32Array(indexCount);
+  let opacity = 1;
+  let v = 0;
+  let k = 0;
+  for (const { vertices, indices: partIndices, matrix: m, color } of parts) {
+    const base = v;
+    opacity = Math.min(opacity, color.w);
+    for (let i = 0; i < vertices.length; i += VERTEX_STRIDE, v++) {
+      const x = vertices[i], y = vertices[i + 1], z = vertices[i + 2];
+      const nx = vertices[i + 3], ny = vertices[i + 4], nz = vertices[i + 5];
+      // Column-major 4x4 transform
+      positions[v * 3] = m[0] * x + m[4] * y + m[8] * z + m[12];
+      positions[v * 3 + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+      positions[v * 3 + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+      const tx = m[0] * nx + m[4] * ny + m[8] * nz;
+      const ty = m[1] * nx + m[5] * ny + m[9] * nz;
+      const tz = m[2] * nx + m[6] * ny + m[10] * nz;
+      const length = Math.hypot(tx, ty, tz) || 1;
+      normals[v * 3] = tx / length;
+      normals[v * 3 + 1] = ty / length;
+      normals[v * 3 + 2] = tz / length;
+      colors[v * 3] = color.x;
+      colors[v * 3 + 1] = color.y;
+      colors[v * 3 + 2] = color.z;
+    }
+    for (let i = 0; i < partIndices.length; i++) indices[k++] = partIndices[i] + base;
+  }
+  return { positions, normals, colors, indices, opacity };
+};
+
+// Streams every product mesh of the file, keyed by entity id. `expectedCount`
+// only sizes the progress bar; web-ifc does not announce the total up front.
+export const loadIFCMeshes = async (
+  file: Blob,
+  options: IFCProcessingOptions = {},
+  expectedCount = 0
+): Promise<Map<string, IFCMesh>> => {
+  const { signal, onProgress } = options;
+  const { IfcAPI } = await import('web-ifc');
+  const api = new IfcAPI();
+  await api.Init(() => wasmUrl);
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  throwIfAborted(signal);
+  // Moving the model to the origin keeps georeferenced coordinates within float precision
+  const modelID = api.OpenModel(data, { COORDINATE_TO_ORIGIN: true });
+  const meshes = new Map<string, IFCMesh>();
+  try {
+    onProgress?.({ phase: 'geometry', completed: 0, total: expectedCount });
+    api.StreamAllMeshes(modelID, (mesh) => {
+      const parts: MeshPart[] = [];
+      const placed = mesh.geometries;
+      for (let i = 0; i < placed.size(); i++) {
+        const { geometryExpressID, flatTransformation, color } = placed.get(i);
+        const geometry = api.GetGeometry(modelID, geometryExpressID);
+        // The arrays are views into the wasm heap; mergeParts copies them out
+        parts.push({
+          vertices: api.GetVertexArray(geometry.GetVertexData(), geometry.GetVertexDataSize()),
+          indices: api.GetIndexArray(geometry.GetIndexData(), geometry.GetIndexDataSize()),
+          matrix: flatTransformation,
+          color,
+        });
+      }
+      if (parts.length) meshes.set(String(mesh.expressID), mergeParts(parts));
+      onProgress?.({ phase: 'geometry', completed: meshes.size, total: Math.max(expectedCount, meshes.size) });
+    });
+  } finally {
+    api.CloseModel(modelID);
+  }
+  throwIfAborted(signal);
+  return meshes;
+};
@@ -0,0 +1,169 @@
+// Openings cut into walls and slabs (IfcRelVoidsElement), the doors and windows
+// filling them (IfcRelFillsElement), and the net quantities left after deduction
+import { IFCProcessingOptions, throwIfAborted } from './ifcProgress';
+import type { IFCEntity, IFCParseResult } from './ifcParser';
+import { IFCEntityIndex, getEntitiesOfType, getReferencedEntities, getReferencingEntities } from './ifcIndex';
+import { IFCQuantityValue, VolumeMap, primaryQuantity } from './ifcQuantities';
+import { IFCUnitSystem, formatQuantity } from './ifcUnits';
+import { stepString } from './stepParser';
+
+export interface IFCOpeningDeduction {
+  openingId: string;
+  openingName: string;
+  // Door or window placed in the opening, if any
+  fillingId: string | null;
+  fillingType: string | null;
+  fillingName: string | null;
+  // In m² and m³; null when neither the opening nor its filling declares them
+  area: number | null;
+  volume: number | null;
+  // False when the rule below keeps the opening in the host's quantities
+  deducted: boolean;
+}
+
+// Measurement rule for small openings: anything with a smaller area is not deducted
+export interface IFCOpeningRule {
+  minArea: number;
+}
+
+export const DEFAULT_OPENING_RULE: IFCOpeningRule = { minArea: 0 };
+
+export interface OpeningMap {
+  [hostId: string]: IFCOpeningDeduction[];
+}
+
+export interface IFCNetQuantities {
+  volumes: VolumeMap;
+  areas: VolumeMap;
+  openings: OpeningMap;
+}
+
+// How many relationships to process between progress reports and abort checks
+const PROGRESS_INTERVAL = 200;
+
+const namedQuantity = (quantities: IFCQuantityValue[] | undefined, name: string) =>
+  quantities?.find(q => q.name === name)?.value;
+
+const openingArea = (opening: IFCEntity, filling: IFCEntity | undefined): number | null => {
+  const declared = primaryQuantity(opening.quantities, 'area')?.value;
+  if (declared !== undefined) return declared;
+  const width = namedQuantity(opening.quantities, 'Width');
+  const height = namedQuantity(opening.quantities, 'Height');
+  if (width !== undefined && height !== undefined) return width * height;
+  if (!filling) return null;
+  const filled = primaryQuantity(filling.quantities, 'area')?.value;
+  if (filled !== undefined) return filled;
+  const { width: overallWidth, height: overallHeight } = filling.properties;
+  return overallWidth !== undefined && overallHeight !== undefined ? overallWidth * overallHeight : null;
+};
+
+// Declared volume, or area times the opening depth (falling back to the host's width)
+const openingVolume = (opening: IFCEntity, host: IFCEntity, area: number | null): number | null => {
+  const declared = primaryQuantity(opening.quantities, 'volume')?.value;
+  if (declared !== undefined) return declared;
+  const depth = namedQuantity(opening.quantities, 'Depth') ?? namedQuantity(host.quantities, 'Width');
+  return area !== null && depth !== undefined ? area * depth : null;
+};
+
+const readOpening = (
+  index: IFCEntityIndex,
+  host: IFCEntity,
+  opening: IFCEntity,
+  rule: IFCOpeningRule
+): IFCOpeningDeduction => {
+  const [fills] = getReferencingEntities(index, opening.id, 'IFCRELFILLSELEMENT', 'RelatingOpeningElement');
+  const [filling] = fills ? getReferencedEntities(index, fills.id, 'RelatedBuildingElement') : [];
+  const area = openingArea(opening, filling);
+  return {
+    openingId: opening.id,
+    openingName: stepString(opening.attributes.Name) || `${opening.type}_${opening.id}`,
+    fillingId: filling?.id ?? null,
+    fillingType: filling?.type ?? null,
+    fillingName: filling ? stepString(filling.attributes.Name) || `${filling.type}_${filling.id}` : null,
+    area,
+    volume: openingVolume(opening, host, area),
+    deducted: area === null || area >= rule.minArea,
+  };
+};
+
+// Openings voiding one host, with their fillings
+export const hostedOpenings = (
+  index: IFCEntityIndex,
+  host: IFCEntity,
+  rule: IFCOpeningRule = DEFAULT_OPENING_RULE
+): IFCOpeningDeduction[] =>
+  getReferencingEntities(index, host.id, 'IFCRELVOIDSELEMENT', 'RelatingBuildingElement')
+    .flatMap(rel => getReferencedEntities(index, rel.id, 'RelatedOpeningElement'))
+    .map(opening => readOpening(index, host, opening, rule));
+
+// 'DOOR: Door 1 (2.00 m²); Recess (0.25 m², not deducted)'
+export const formatOpenings = (openings: IFCOpeningDeduction[], system: IFCUnitSystem = 'metric'): string =>
+  openings
+    .map(o => {
+      const label = o.fillingName ? `${o.fillingType?.replace('IFC', '')}: ${o.fillingName}` : o.openingName;
+      const details = [
+        o.area !== null ? formatQuantity(o.area, 'area', system, 2) : null,
+        o.deducted ? null : 'not deducted',
+      ].filter(Boolean);
+      return details.length ? `${label} (${details.join(', ')})` : label;
+    })
+    .join('; ');
+
+// Gross values lose the deducted openings; net-only values were already cut by
+// the authoring tool, so openings the rule keeps are added back instead
+const netQuantity = (
+  quantities: IFCQuantityValue[],
+  kind: 'area' | 'volume',
+  openings: IFCOpeningDeduction[]
+): number | undefined => {
+  // Footprint areas are horizontal; openings only cut the side and slab areas
+  const ofKind = quantities.filter(q => q.kind === kind && !q.name.includes('Footprint'));
+  const gross = ofKind.find(q => q.name.startsWith('Gross'));
+  const net = ofKind.find(q => q.name.startsWith('Net'));
+  const sum = (deducted: boolean) =>
+    openings.filter(o => o.deducted === deducted).reduce((total, o) => total + (o[kind] ?? 0), 0);
+  if (gross) return Math.max(0, gross.value - sum(true));
+  if (net) return net.value + sum(false);
+  return ofKind.length ? Math.max(0, ofKind[0].value - sum(true)) : undefined;
+};
+
+export const computeNetQuantities = (
+  result: IFCParseResult,
+  options: IFCProcessingOptions = {},
+  rule: IFCOpeningRule = DEFAULT_OPENING_RULE
+): IFCNetQuantities => {
+  const { signal, onProgress } = options;
+  const { index } = result;
+  const openings: OpeningMap = {};
+
+  const voids = getEntitiesOfType(index, 'IFCRELVOIDSELEMENT');
+  voids.forEach((rel, i) => {
+    if (i % PROGRESS_INTERVAL === 0) {
+      throwIfAborted(signal);
+      onProgress?.({ phase: 'relationships', completed: i, total: voids.length });
+    }
+    const [host] = getReferencedEntities(index, rel.id, 'RelatingBuildingElement');
+    const [opening] = getReferencedEntities(index, rel.id, 'RelatedOpeningElement');
+    if (!host || !opening) return;
+    (openings[host.id] ??= []).push(readOpening(index, host, opening, rule));
+  });
+  onProgress?.({ phase: 'relationships', completed: voids.length, total: voids.length });
+
+  const volumes: VolumeMap = {};
+  const areas: VolumeMap = {};
+  const withQuantities = result.entities.filter(e => e.quantities?.length);
+  withQuantities.forEach((entity, i) => {
+    if (i % PROGRESS_INTERVAL === 0) {
+      throwIfAborted(signal);
+      onProgress?.({ phase: 'volumes', completed: i, total: withQuantities.length });
+    }
+    const hosted = openings[entity.id] || [];
+    const volume = netQuantity(entity.quantities!, 'volume', hosted);
+    const area = netQuantity(entity.quantities!, 'area', hosted);
+    if (volume !== undefined) volumes[entity.id] = volume;
+    if (area !== undefined) areas[entity.id] = area;
+  });
+  onProgress?.({ phase: 'volumes', completed: withQuantities.length, total: withQuantities.length });
+
+  return { volumes, areas, openings };
+};
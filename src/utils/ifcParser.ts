@@ -1,216 +1,370 @@
-// Simple IFC parser for demonstration
-// In a real implementation, you'd use a proper IFC parsing library
+// IFC parser built on the ISO 10303-21 tokenizer in stepParser.ts
+import {
+  StepValue,
+  formatStepValue,
+  iterateStepStatements,
+  parseStepStatement,
+  readStepStatements,
+  stepList,
+  stepNumber,
+  stepString,
+} from './stepParser';
+import { IFCProcessingOptions, throwIfAborted } from './ifcProgress';
+import { CSVCell, CSVDialect, DEFAULT_CSV_DIALECT, formatCSVRow } from './csvFormat';
+import { IFCSchemaName, detectSchema, getAttributeNames, isSubtypeOf } from './ifcSchema';
+import { IFCEntityIndex, addToIndex, createEntityIndex } from './ifcIndex';
+import { IFCPropertySets, attachPropertySets } from './ifcProperties';
+import { IFCQuantityValue, VolumeMap, attachQuantities } from './ifcQuantities';
+import {
+  IFCMaterialDefinition,
+  attachMaterials,
+  computeLayerBreakdown,
+  formatMaterialLabel,
+} from './ifcMaterials';
+import { IFCClassification, attachClassifications } from './ifcClassifications';
+import { IFCTypeObjectRef, attachTypeObjects } from './ifcTypeObjects';
+import { IFCDisplayKind, IFCProjectUnits, IFCUnitSystem, displayUnitLabel, readProjectUnits, toDisplayUnit } from './ifcUnits';
 
 export interface IFCEntity {
   id: string;
   type: string;
   properties: Record<string, any>;
-  params?: string[];
+  args: StepValue[];
+  // Arguments keyed by their schema attribute name (GlobalId, Name, ...);
+  // types the schema tables don't describe use positional Param_N keys
+  attributes: Record<string, StepValue>;
+  // Property sets by name, resolved once the whole file has been read
+  psets?: IFCPropertySets;
+  // Values from attached IfcElementQuantity sets
+  quantities?: IFCQuantityValue[];
+  // Own material association, or the one of the type object
+  material?: IFCMaterialDefinition;
+  // Own classification references, or those of the type object
+  classifications?: IFCClassification[];
+  // Type object related through IfcRelDefinesByType
+  typeObject?: IFCTypeObjectRef;
+  // Own PredefinedType, or the type object's when the occurrence leaves it unset
+  predefinedType?: string;
 }
 
-export const parseIFCFile = async (file: File): Promise<IFCEntity[]> => {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      const entities = parseIFCContent(content);
-      
-      // Simulate processing time
-      setTimeout(() => {
-        resolve(entities);
-      }, 3000);
-    };
-    
-    reader.readAsText(file);
-  });
+// Contents of the STEP HEADER section (FILE_DESCRIPTION, FILE_NAME, FILE_SCHEMA)
+export interface IFCFileHeader {
+  description: string[];
+  implementationLevel: string;
+  name: string;
+  timeStamp: string;
+  author: string[];
+  organization: string[];
+  preprocessorVersion: string;
+  originatingSystem: string;
+  authorization: string;
+  schemaIdentifiers: string[];
+}
+
+export interface IFCParseResult {
+  header: IFCFileHeader;
+  entities: IFCEntity[];
+  index: IFCEntityIndex;
+  // Scales from the file's units to SI. Quantities, material layer thicknesses
+  // and properties.width/height are already converted; property set values
+  // keep the file's units
+  units: IFCProjectUnits;
+}
+
+export const createEmptyHeader = (): IFCFileHeader => ({
+  description: [],
+  implementationLevel: '',
+  name: '',
+  timeStamp: '',
+  author: [],
+  organization: [],
+  preprocessorVersion: '',
+  originatingSystem: '',
+  authorization: '',
+  schemaIdentifiers: [],
+});
+
+const stringList = (value: StepValue | undefined): string[] =>
+  stepList(value).map(stepString).filter((s): s is string => !!s);
+
+const applyHeaderStatement = (header: IFCFileHeader, type: string, args: StepValue[]) => {
+  switch (type) {
+    case 'FILE_DESCRIPTION':
+      header.description = stringList(args[0]);
+      header.implementationLevel = stepString(args[1]) || '';
+      break;
+    case 'FILE_NAME':
+      header.name = stepString(args[0]) || '';
+      header.timeStamp = stepString(args[1]) || '';
+      header.author = stringList(args[2]);
+      header.organization = stringList(args[3]);
+      header.preprocessorVersion = stepString(args[4]) || '';
+      header.originatingSystem = stepString(args[5]) || '';
+      header.authorization = stepString(args[6]) || '';
+      break;
+    case 'FILE_SCHEMA':
+      header.schemaIdentifiers = stringList(args[0]);
+      break;
+  }
+};
+
+// Header values collected so far; FILE_SCHEMA precedes DATA, so the schema is
+// settled by the time the first entity arrives
+interface ParseContext {
+  header: IFCFileHeader;
+  schema: IFCSchemaName;
+}
+
+const createParseContext = (): ParseContext => ({ header: createEmptyHeader(), schema: 'IFC4' });
+
+// Routes one statement either to the header or, for '#' instances, to onEntity
+const consumeStatement = (
+  statement: string,
+  context: ParseContext,
+  onEntity: (entity: IFCEntity) => void
+): boolean => {
+  if (statement.startsWith('#')) {
+    const entity = parseIFCStatement(statement, context.schema);
+    if (entity) onEntity(entity);
+    return !!entity;
+  }
+  try {
+    const parsed = parseStepStatement(statement);
+    if (parsed.kind === 'header') {
+      applyHeaderStatement(context.header, parsed.type, parsed.args);
+      if (parsed.type === 'FILE_SCHEMA') context.schema = detectSchema(context.header.schemaIdentifiers);
+    }
+  } catch {
+    // A malformed header line must not abort the whole file
+  }
+  return false;
+};
+
+// Streams the file through the tokenizer, handing each entity to onEntity as
+// soon as its statement is complete. Progress is reported once per chunk.
+// Resolves with the file header once the whole file has been read.
+export const streamIFCEntities = async (
+  file: Blob,
+  onEntity: (entity: IFCEntity) => void,
+  options: IFCProcessingOptions = {}
+): Promise<IFCFileHeader> => {
+  const { signal, onProgress } = options;
+  const context = createParseContext();
+  let entitiesParsed = 0;
+  for await (const { statements, bytesRead } of readStepStatements(file)) {
+    throwIfAborted(signal);
+    for (const statement of statements) {
+      if (consumeStatement(statement, context, onEntity)) entitiesParsed++;
+    }
+    onProgress?.({ phase: 'parsing', bytesRead, totalBytes: file.size, entitiesParsed });
+  }
+  return context.header;
+};
+
+// Everything that needs the whole file: units, then the relationships that
+// attach property sets, quantities, materials, classifications and types
+const resolveEntityGraph = (entities: IFCEntity[], index: IFCEntityIndex): IFCProjectUnits => {
+  const units = readProjectUnits(index);
+  for (const { properties } of entities) {
+    if (properties.width !== undefined) properties.width *= units.length;
+    if (properties.height !== undefined) properties.height *= units.length;
+  }
+  attachPropertySets(index);
+  attachQuantities(index, units);
+  attachMaterials(index, units.length);
+  attachClassifications(index);
+  attachTypeObjects(index);
+  return units;
+};
+
+export const parseIFCFile = async (file: Blob, options: IFCProcessingOptions = {}): Promise<IFCParseResult> => {
+  const entities: IFCEntity[] = [];
+  const index = createEntityIndex();
+  const header = await streamIFCEntities(file, entity => {
+    entities.push(entity);
+    addToIndex(index, entity);
+  }, options);
+  return { header, entities, index, units: resolveEntityGraph(entities, index) };
 };
 
-const parseIFCContent = (content: string): IFCEntity[] => {
+export const parseIFCContent = (content: string): IFCParseResult => {
   const entities: IFCEntity[] = [];
-  const lines = content.split('\n');
+  const index = createEntityIndex();
+  const context = createParseContext();
   
-  for (const line of lines) {
-    if (line.trim().startsWith('#')) {
-      const entity = parseIFCLine(line);
-      if (entity) {
-        entities.push(entity);
-      }
-    }
+  for (const statement of iterateStepStatements(content)) {
+    consumeStatement(statement, context, entity => {
+      entities.push(entity);
+      addToIndex(index, entity);
+    });
   }
   
-  return entities;
+  return { header: context.header, entities, index, units: resolveEntityGraph(entities, index) };
+};
+
+const nameAttributes = (schema: IFCSchemaName, type: string, args: StepValue[]): Record<string, StepValue> => {
+  const names = getAttributeNames(schema, type) || [];
+  const attributes: Record<string, StepValue> = {};
+  args.forEach((arg, i) => {
+    attributes[names[i] || `Param_${i + 1}`] = arg;
+  });
+  return attributes;
 };
 
-const parseIFCLine = (line: string): IFCEntity | null => {
+const parseIFCStatement = (statement: string, schema: IFCSchemaName): IFCEntity | null => {
   try {
-    // Basic IFC line parsing - this is simplified
-    const match = line.match(/#(\d+)\s*=\s*(\w+)\s*\((.*)\);?/);
-    if (!match) return null;
+    const parsed = parseStepStatement(statement);
+    if (parsed.kind !== 'instance') return null;
     
-    const [, id, type, params] = match;
+    const { id, type, args } = parsed.instance;
+    const attributes = nameAttributes(schema, type, args);
     
-    // Parse parameters (simplified)
-    const properties: Record<string, any> = {};
-    const paramList = params.split(',').map(p => p.trim());
+    const properties: Record<string, any> = {
+      name: stepString(attributes.Name) || `${type}_${id}`,
+    };
     
-    // Add some basic properties based on common IFC entities
-    switch (type) {
-      case 'IFCWALL':
-        properties.name = extractStringValue(paramList[0]) || `Wall_${id}`;
-        properties.height = extractNumericValue(paramList[1]) || 3000;
-        properties.thickness = extractNumericValue(paramList[2]) || 200;
-        break;
-      case 'IFCDOOR':
-        properties.name = extractStringValue(paramList[0]) || `Door_${id}`;
-        properties.width = extractNumericValue(paramList[1]) || 800;
-        properties.height = extractNumericValue(paramList[2]) || 2100;
-        break;
-      case 'IFCWINDOW':
-        properties.name = extractStringValue(paramList[0]) || `Window_${id}`;
-        properties.width = extractNumericValue(paramList[1]) || 1200;
-        properties.height = extractNumericValue(paramList[2]) || 1500;
-        break;
-      case 'IFCSPACE':
-        properties.name = extractStringValue(paramList[0]) || `Space_${id}`;
-        properties.area = extractNumericValue(paramList[1]) || 25;
-        properties.volume = extractNumericValue(paramList[2]) || 75;
-        break;
-      default:
-        properties.name = extractStringValue(paramList[0]) || `${type}_${id}`;
-        break;
-    }
+    // Doors and windows carry their nominal size as attributes; other
+    // dimensions only exist in quantity sets or geometry
+    const width = stepNumber(attributes.OverallWidth);
+    const height = stepNumber(attributes.OverallHeight);
+    if (width !== null) properties.width = width;
+    if (height !== null) properties.height = height;
     
-    return {
-      id,
-      type,
-      properties,
-      params: paramList,
-    };
+    return { id, type, properties, args, attributes };
   } catch (error) {
     return null;
   }
 };
 
-const extractStringValue = (param: string): string | null => {
-  const match = param?.match(/'([^']*)'/);
-  return match ? match[1] : null;
-};
+// Numbers stay numbers so the CSV dialect can apply its decimal separator
+const stepCell = (value: StepValue | undefined): CSVCell =>
+  value?.kind === 'real' || value?.kind === 'integer' ? value.value : formatStepValue(value);
 
-const extractNumericValue = (param: string): number | null => {
-  const num = parseFloat(param?.replace(/[^\d.-]/g, '') || '');
-  return isNaN(num) ? null : num;
-};
+// CSV exports are generators of rows, header first, serialized one by one by
+// serializeCSV so a large model is never held as a single string
 
-export const convertToCSV = (entities: IFCEntity[]): string => {
-  if (entities.length === 0) return '';
+export function* iterateCSV(entities: IFCEntity[]): Generator<CSVCell[]> {
+  if (entities.length === 0) return;
   
-  // Get all unique property keys
-  const allProperties = new Set<string>();
+  // Union of attribute names in first-seen order, so GlobalId, OwnerHistory,
+  // Name, ... lead and subtype attributes follow
+  const allAttributes = new Set<string>();
   entities.forEach(entity => {
-    Object.keys(entity.properties).forEach(key => allProperties.add(key));
+    Object.keys(entity.attributes).forEach(key => allAttributes.add(key));
   });
   
-  const headers = ['ID', 'Type', ...Array.from(allProperties)];
-  const csvLines = [headers.join(',')];
+  yield ['ID', 'Type', 'TypeName', ...Array.from(allAttributes)];
   
-  entities.forEach(entity => {
-    const row = [
+  for (const entity of entities) {
+    yield [
       entity.id,
       entity.type,
-      ...Array.from(allProperties).map(prop => {
-        const value = entity.properties[prop];
-        return value !== undefined ? `"${value}"` : '';
-      })
+      entity.typeObject?.name ?? '',
+      ...Array.from(allAttributes).map(attribute => stepCell(entity.attributes[attribute]))
     ];
-    csvLines.push(row.join(','));
-  });
-  
-  return csvLines.join('\n');
-};
+  }
+}
 
 // Removed duplicate convertToCSVAllParams definition
 
-export const convertToCSVSelectedParams = (entities: IFCEntity[]): string => {
-  const headers = [
+// One row per element and material layer, splitting the selected volume and
+// area. Type objects are skipped: their layers reach the CSV through the
+// occurrences that inherit them.
+export function* iterateCSVLayers(
+  entities: IFCEntity[],
+  volumes: VolumeMap,
+  areas: VolumeMap,
+  schema: IFCSchemaName,
+  unitSystem: IFCUnitSystem = 'metric'
+): Generator<CSVCell[]> {
+  const unit = (kind: IFCDisplayKind) => displayUnitLabel(kind, unitSystem);
+  const display = (value: number | null, kind: IFCDisplayKind) =>
+    value !== null ? toDisplayUnit(value, kind, unitSystem) : '';
+  yield [
     'GlobalId',
     'Name',
-    'ObjectType',
     'IfcElementType',
-    'IfcBuildingStorey (Level)',
-    'IfcQuantityLength',
-    'IfcQuantityArea',
-    'IfcQuantityVolume',
-    'IfcQuantityCount',
-    'IfcQuantityWeight',
-    'IfcBoundingBox',
-    'IfcSpatialStructureElement (Building, Storey, Zone)',
-    'IfcMaterial',
+    'TypeName',
     'IfcMaterialLayerSet',
-    'IfcClassificationReference',
-    'Pset_QuantityTakeOff',
-    'Pset_WallCommon',
-    'Pset_BeamCommon',
-    'Pset_ColumnCommon',
-    'Pset_MaterialQuantities',
-    'IfcElementAssembly',
-    'IfcOpeningElement',
-    'IfcReinforcingElement',
-    'IfcCovering'
+    'LayerIndex',
+    'LayerMaterial',
+    `LayerThickness (${unit('length')})`,
+    'LayerShare',
+    `LayerNetVolume (${unit('volume')})`,
+    `LayerArea (${unit('area')})`
   ];
-  if (entities.length === 0) return headers.join(',');
-  const esc = (v: unknown) => {
-    let s = v == null ? '' : String(v);
-    s = s.replace(/"/g, '""');
-    return `"${s}"`;
-  };
-  const lines = [headers.join(',')];
   for (const e of entities) {
-    const globalId = e.params && e.params.length > 0 ? (e.params[0].replace(/^'/, '').replace(/'$/, '')) : '';
-    const name = e.properties?.name ?? '';
-    const objectType = '';
-    const elementType = e.type ?? '';
-    const level = '';
-    const qLen = e.properties?.length ?? e.properties?.height ?? e.properties?.width ?? '';
-    const qArea = e.properties?.area ?? '';
-    const qVol = e.properties?.volume ?? '';
-    const qCount = '';
-    const qWeight = '';
-    const bbox = '';
-    const spatial = '';
-    const material = '';
-    const materialLayerSet = '';
-    const classRef = '';
-    const pQtyTO = '';
-    const pWall = '';
-    const pBeam = '';
-    const pColumn = '';
-    const pMatQty = '';
-    const elAssembly = '';
-    const opening = '';
-    const reinforcing = '';
-    const covering = '';
-    const row = [
-      esc(globalId), esc(name), esc(objectType), esc(elementType), esc(level),
-      esc(qLen), esc(qArea), esc(qVol), esc(qCount), esc(qWeight), esc(bbox), esc(spatial),
-      esc(material), esc(materialLayerSet), esc(classRef), esc(pQtyTO), esc(pWall), esc(pBeam), esc(pColumn), esc(pMatQty), esc(elAssembly), esc(opening), esc(reinforcing), esc(covering)
-    ];
-    lines.push(row.join(','));
+    if (isSubtypeOf(schema, e.type, 'IFCTYPEOBJECT')) continue;
+    const layers = computeLayerBreakdown(e.material, volumes[e.id], areas[e.id]);
+    for (const [i, layer] of layers.entries()) {
+      yield [
+        stepString(e.attributes.GlobalId) ?? '',
+        stepString(e.attributes.Name) ?? '',
+        e.type,
+        e.typeObject?.name ?? '',
+        formatMaterialLabel(e.material),
+        i + 1,
+        layer.material,
+        display(layer.thickness, 'length'),
+        layer.share,
+        display(layer.volume, 'volume'),
+        display(layer.area, 'area')
+      ];
+    }
   }
-  return lines.join('\n');
-};
+}
 
-export const convertToCSVAllParams = (entities: IFCEntity[]): string => {
-  if (entities.length === 0) return '';
-  const maxParams = entities.reduce((m, e) => Math.max(m, e.params?.length || 0), 0);
-  const headers = ['ID', 'Type', ...Array.from({ length: maxParams }, (_, i) => `Param_${i + 1}`)];
-  const csvLines = [headers.join(',')];
-  entities.forEach(entity => {
-    const params = entity.params || [];
-    const padded = [...params];
+export function* iterateCSVAllParams(entities: IFCEntity[]): Generator<CSVCell[]> {
+  if (entities.length === 0) return;
+  const maxParams = entities.reduce((m, e) => Math.max(m, e.args.length), 0);
+  yield ['ID', 'Type', 'TypeName', ...Array.from({ length: maxParams }, (_, i) => `Param_${i + 1}`)];
+  for (const entity of entities) {
+    const padded = entity.args.map(stepCell);
     while (padded.length < maxParams) padded.push('');
-    const row = [entity.id, entity.type, ...padded.map(v => (v !== undefined ? `"${String(v).replace(/\"/g, '""')}"` : ''))];
-    csvLines.push(row.join(','));
-  });
-  return csvLines.join('\n');
-};
\ No newline at end of file
+    yield [entity.id, entity.type, entity.typeObject?.name ?? '', ...padded];
+  }
+}
+
+export type ExportMetadataMode = 'none' | 'preamble' | 'sidecar';
+
+// Traceability information written next to CSV exports
+export interface IFCExportMetadata {
+  sourceFile: string;
+  exportedAt: string;
+  schema: string;
+  originatingSystem: string;
+  preprocessorVersion: string;
+  fileTimeStamp: string;
+  authors: string[];
+  organizations: string[];
+  description: string[];
+}
+
+export const buildExportMetadata = (header: IFCFileHeader, sourceFile: string): IFCExportMetadata => ({
+  sourceFile,
+  exportedAt: new Date().toISOString(),
+  schema: header.schemaIdentifiers.join(', '),
+  originatingSystem: header.originatingSystem,
+  preprocessorVersion: header.preprocessorVersion,
+  fileTimeStamp: header.timeStamp,
+  authors: header.author,
+  organizations: header.organization,
+  description: header.description,
+});
+
+// '#'-prefixed records to place above the CSV header row, one '# key' and
+// value pair each, escaped like the data rows so the columns stay intact
+export const formatMetadataPreamble = (metadata: IFCExportMetadata, dialect: CSVDialect = DEFAULT_CSV_DIALECT): string => {
+  const rows: [string, string][] = [
+    ['Source file', metadata.sourceFile],
+    ['Exported at', metadata.exportedAt],
+    ['Schema', metadata.schema],
+    ['Originating system', metadata.originatingSystem],
+    ['Preprocessor version', metadata.preprocessorVersion],
+    ['File timestamp', metadata.fileTimeStamp],
+    ['Authors', metadata.authors.join('; ')],
+    ['Organizations', metadata.organizations.join('; ')],
+    ['Description', metadata.description.join('; ')],
+  ];
+  return rows.map(([key, value]) => formatCSVRow([`# ${key}`, value.replace(/[\r\n]+/g, ' ')], dialect)).join('');
+};
@@ -1,5 +1,32 @@
 import * as THREE from 'three';
-import { computeNetVolumes } from './ifcWebIfc';
+import { getGeometryForType } from './ifcGeometry';
+import { IFCMesh, loadIFCMeshes } from './ifcMeshes';
+import { IFCPropertySets } from './ifcProperties';
+import { IFCQuantitySource, IFCQuantityValue, primaryQuantity } from './ifcQuantities';
+import { computeMeshQuantities, computedQuantity } from './ifcMeshQuantities';
+import {
+  DEFAULT_QUANTITY_SOURCE,
+  IFCCandidateKind,
+  IFCQuantityCandidates,
+  IFCQuantitySourcePreference,
+  selectQuantity,
+} from './ifcQuantitySources';
+import {
+  DEFAULT_OPENING_RULE,
+  IFCNetQuantities,
+  IFCOpeningDeduction,
+  IFCOpeningRule,
+  computeNetQuantities,
+} from './ifcOpenings';
+import { IFCLayerQuantity, IFCMaterialDefinition, computeLayerBreakdown, formatMaterialLabel } from './ifcMaterials';
+import { IFCClassification } from './ifcClassifications';
+import { IFCProcessingOptions, isAbortError } from './ifcProgress';
+import { IFCEntity, IFCFileHeader, IFCParseResult, parseIFCFile } from './ifcParser';
+import { getEntitiesOfType, getEntity, getReferencingEntities } from './ifcIndex';
+import { IFCSchemaName, detectSchema, isSubtypeOf } from './ifcSchema';
+import { findStorey } from './ifcSpatial';
+import { IFCDisplayKind } from './ifcUnits';
+import { stepNumber, stepRef, stepString } from './stepParser';
 
 export interface IFCElement {
   id: string;
@@ -7,15 +34,35 @@ export interface IFCElement {
   name: string;
   level?: string;
   properties: Record<string, any>;
-  geometry?: THREE.BufferGeometry;
-  position?: THREE.Vector3;
-  rotation?: THREE.Euler;
-  material?: THREE.Material;
+  // Where properties.length/area/volume/weight came from; missing means a placeholder
+  quantitySources: Partial<Record<IFCDisplayKind, IFCQuantitySource>>;
+  // Every known area and volume, from which properties.area/volume are selected
+  quantityCandidates: Record<IFCCandidateKind, IFCQuantityCandidates>;
+  psets: IFCPropertySets;
+  // Authored quantities, followed by the ones computed from the mesh
+  quantities: IFCQuantityValue[];
+  material?: IFCMaterialDefinition;
+  // Flattened material name used for grouping, empty when none is assigned
+  materialLabel: string;
+  // Per-layer share of the net volume for elements with a material layer set
+  layers: IFCLayerQuantity[];
+  classifications: IFCClassification[];
+  // Name of the type object (IfcWallType, ...), empty for untyped elements
+  typeName: string;
+  predefinedType?: string;
+  // Openings voiding this element, with what was deducted for each
+  openings: IFCOpeningDeduction[];
+  // Plain tuples rather than THREE objects so the model can be posted between threads
+  position?: [number, number, number];
+  // Real triangulated geometry in world space; position only places the
+  // type placeholder shown when an element has no mesh
+  mesh?: IFCMesh;
 }
 
 export interface IFCLevel {
   id: string;
   name: string;
+  // In metres
   elevation: number;
   elements: IFCElement[];
 }
@@ -23,97 +70,206 @@ export interface IFCLevel {
 export interface IFCQuantity {
   type: string;
   count: number;
+  totalLength?: number;
   totalArea?: number;
   totalVolume?: number;
+  totalWeight?: number;
+  // Elements whose area or volume was computed from their geometry
+  computedCount: number;
   elements: IFCElement[];
 }
 
 export interface IFCModel {
+  header: IFCFileHeader;
   elements: IFCElement[];
   levels: IFCLevel[];
   quantities: {
     byType: Record<string, IFCQuantity>;
     byLevel: Record<string, IFCQuantity>;
+    // Keyed by layer material; totals are the layers' shares, not whole elements
+    byLayer: Record<string, IFCQuantity>;
   };
 }
 
-export const parseIFCFile3D = async (file: File): Promise<IFCModel> => {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      const model = parseIFCContent3D(content);
-      // Enrich with web-ifc volumes asynchronously, then resolve
-      computeNetVolumes(file).then((vol) => {
-        if (Object.keys(vol).length) {
-          model.elements.forEach((el) => {
-            const v = vol[el.id];
-            if (v !== undefined) el.properties.volume = v;
-          });
-          Object.values(model.quantities.byType).forEach(q => {
-            q.totalVolume = q.elements.reduce((s, e) => s + (e.properties.volume || 0), 0);
-          });
-          Object.values(model.quantities.byLevel).forEach(q => {
-            q.totalVolume = q.elements.reduce((s, e) => s + (e.properties.volume || 0), 0);
-          });
-        }
-        resolve(model);
-      }).catch(() => resolve(model));
-    };
-    
-    reader.readAsText(file);
-  });
+// Level bucket for elements not contained in any storey
+export const UNASSIGNED_LEVEL = 'Unassigned';
+
+export interface IFCModelSettings {
+  // Which openings are deducted from their host's quantities
+  openingRule?: IFCOpeningRule;
+  // Whether authored or computed areas and volumes win
+  quantitySource?: IFCQuantitySourcePreference;
+}
+
+export const parseIFCFile3D = async (
+  file: Blob,
+  options: IFCProcessingOptions = {},
+  settings: IFCModelSettings = {}
+): Promise<IFCModel> => buildModel3D(await parseIFCFile(file, options), file, options, settings);
+
+// Builds the model from an existing parse result; the file is read again for geometry
+export const buildModel3D = async (
+  result: IFCParseResult,
+  file: Blob,
+  options: IFCProcessingOptions = {},
+  { openingRule = DEFAULT_OPENING_RULE, quantitySource = DEFAULT_QUANTITY_SOURCE }: IFCModelSettings = {}
+): Promise<IFCModel> => {
+  const schema = detectSchema(result.header.schemaIdentifiers);
+  const elements = result.entities.filter(e => isModelElement(result, schema, e)).map(createElement3D);
+  const net = computeNetQuantities(result, options, openingRule);
+  const levels = assignLevels(result, elements);
+
+  // Placeholder volumes, the declared quantities net of their openings and
+  // the ones measured on the real geometry are all kept as candidates
+  computeApproximateVolumes(elements);
+  elements.forEach(el => applyNetQuantities(el, net));
+
+  // Geometry is optional: without web-ifc the viewer keeps the placeholders
+  try {
+    const meshes = await loadIFCMeshes(file, options, elements.length);
+    elements.forEach(el => {
+      el.mesh = meshes.get(el.id);
+      if (el.mesh) applyMeshQuantities(el);
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+  }
+
+  elements.forEach(el => applyQuantitySource(el, quantitySource));
+  return {
+    header: result.header,
+    elements,
+    levels,
+    quantities: summarizeQuantities(elements),
+  };
 };
 
-const parseIFCContent3D = (content: string): IFCModel => {
-  const elements: IFCElement[] = [];
-  const levels: IFCLevel[] = [];
-  const lines = content.split('\n');
-  
-  // Create sample levels
-  const sampleLevels = [
-    { id: 'L1', name: 'Ground Floor', elevation: 0 },
-    { id: 'L2', name: 'First Floor', elevation: 3000 },
-    { id: 'L3', name: 'Second Floor', elevation: 6000 },
-  ];
+// Physical elements and spaces; other entity types the schema tables don't
+// describe count when the file places them in the spatial structure
+const isModelElement = (result: IFCParseResult, schema: IFCSchemaName, entity: IFCEntity): boolean => {
+  if (isSubtypeOf(schema, entity.type, 'IFCELEMENT') || isSubtypeOf(schema, entity.type, 'IFCSPACE')) return true;
+  return getReferencingEntities(result.index, entity.id, 'IFCRELCONTAINEDINSPATIALSTRUCTURE', 'RelatedElements').length > 0;
+};
+
+const storeyName = (storey: IFCEntity) =>
+  stepString(storey.attributes.Name) || stepString(storey.attributes.LongName) || `Storey_${storey.id}`;
+
+// Placeholder grid layout, in metres
+const PLACEHOLDER_GRID_COLUMNS = 10;
+const PLACEHOLDER_GRID_SPACING = 2;
+
+// Puts each element on its storey and returns the levels
+const assignLevels = (result: IFCParseResult, elements: IFCElement[]): IFCLevel[] => {
+  const storeys = getEntitiesOfType(result.index, 'IFCBUILDINGSTOREY')
+    .map(storey => ({
+      id: storey.id,
+      name: storeyName(storey),
+      elevation: (stepNumber(storey.attributes.Elevation) ?? 0) * result.units.length,
+    }))
+    .sort((a, b) => a.elevation - b.elevation);
+  const storeyById = new Map(storeys.map(storey => [storey.id, storey]));
+  // Grouped by storey id, since storey names are not guaranteed to be unique
+  const elementsByStorey = new Map<string, IFCElement[]>();
+  const unassigned: IFCElement[] = [];
   
-  // Parse entities and create 3D elements
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (line.trim().startsWith('#')) {
-      const element = parseIFCLine3D(line, i);
-      if (element) {
-        // Assign to random level for demo
-        const level = sampleLevels[Math.floor(Math.random() * sampleLevels.length)];
-        element.level = level.name;
-        element.position = new THREE.Vector3(
-          (Math.random() - 0.5) * 20,
-          level.elevation / 1000,
-          (Math.random() - 0.5) * 20
-        );
-        elements.push(element);
-      }
+  for (const element of elements) {
+    const storey = storeyById.get(findStorey(result.index, element.id)?.id ?? '');
+    element.level = storey ? storey.name : UNASSIGNED_LEVEL;
+    if (storey) {
+      const group = elementsByStorey.get(storey.id);
+      if (group) group.push(element);
+      else elementsByStorey.set(storey.id, [element]);
+    } else {
+      unassigned.push(element);
     }
   }
   
-  // Approximate volumes using axis-aligned bounding boxes and subtract openings (doors/windows)
-  computeApproximateVolumes(elements);
-
-  // Create levels with elements
-  sampleLevels.forEach(levelData => {
-    const levelElements = elements.filter(el => el.level === levelData.name);
-    levels.push({
-      id: levelData.id,
-      name: levelData.name,
-      elevation: levelData.elevation,
-      elements: levelElements
+  // Elements without a mesh are shown as type placeholders on a grid at their storey's elevation
+  for (const [storeyId, group] of [...elementsByStorey, ['', unassigned] as const]) {
+    const elevation = storeyById.get(storeyId)?.elevation ?? 0;
+    group.forEach((element, i) => {
+      element.position = [
+        ((i % PLACEHOLDER_GRID_COLUMNS) - (PLACEHOLDER_GRID_COLUMNS - 1) / 2) * PLACEHOLDER_GRID_SPACING,
+        elevation,
+        Math.floor(i / PLACEHOLDER_GRID_COLUMNS) * PLACEHOLDER_GRID_SPACING
+      ];
     });
-  });
+  }
   
+  // Levels in elevation order, followed by the unassigned bucket when it has elements
+  const levels: IFCLevel[] = storeys.map(storey => ({
+    ...storey,
+    elements: elementsByStorey.get(storey.id) || [],
+  }));
+  if (unassigned.length) {
+    levels.push({ id: UNASSIGNED_LEVEL, name: UNASSIGNED_LEVEL, elevation: 0, elements: unassigned });
+  }
+  return levels;
+};
+
+// Declared quantities, net of their openings
+const applyNetQuantities = (element: IFCElement, net: IFCNetQuantities) => {
+  const volume = net.volumes[element.id];
+  const area = net.areas[element.id];
+  if (volume !== undefined) element.quantityCandidates.volume.authored = volume;
+  if (area !== undefined) element.quantityCandidates.area.authored = area;
+  element.openings = net.openings[element.id] || [];
+};
+
+// Which computed area stands for the element's area: one face for walls and
+// what fills them, the plan area for horizontal elements, otherwise the whole surface
+const computedAreaName = (type: string) => {
+  if (/^IFC(WALL|CURTAINWALL|DOOR|WINDOW|PLATE|RAILING)/.test(type)) return 'SideArea';
+  if (/^IFC(SLAB|ROOF|SPACE|COVERING|FOOTING)/.test(type)) return 'FootprintArea';
+  return 'SurfaceArea';
+};
+
+// Records the quantities measured on the element's mesh
+const applyMeshQuantities = (element: IFCElement) => {
+  const computed = computeMeshQuantities(element.mesh!);
+  element.quantities = [...element.quantities, ...computed];
+  element.quantityCandidates.volume.computed = computedQuantity(computed, 'Volume');
+  element.quantityCandidates.area.computed = computedQuantity(computed, computedAreaName(element.type));
+};
+
+// Sets properties.area/volume from the candidates and re-splits them over the material layers
+const applyQuantitySource = (element: IFCElement, preference: IFCQuantitySourcePreference) => {
+  for (const kind of ['area', 'volume'] as const) {
+    const selected = selectQuantity(element.quantityCandidates[kind], preference);
+    if (selected) element.properties[kind] = selected.value;
+    else delete element.properties[kind];
+    if (selected?.source) element.quantitySources[kind] = selected.source;
+    else delete element.quantitySources[kind];
+  }
+  element.layers = computeLayerBreakdown(element.material, element.properties.volume, element.properties.area);
+};
+
+// The model with areas and volumes selected again under another preference,
+// without re-reading the file. Elements are copied so the previous model stays intact.
+export const withQuantitySource = (model: IFCModel, preference: IFCQuantitySourcePreference): IFCModel => {
+  const copies = new Map<string, IFCElement>();
+  const elements = model.elements.map(el => {
+    const copy = { ...el, properties: { ...el.properties }, quantitySources: { ...el.quantitySources } };
+    applyQuantitySource(copy, preference);
+    copies.set(el.id, copy);
+    return copy;
+  });
+  return {
+    ...model,
+    elements,
+    levels: model.levels.map(level => ({ ...level, elements: level.elements.map(el => copies.get(el.id) ?? el) })),
+    quantities: summarizeQuantities(elements),
+  };
+};
+
+const isComputed = (element: IFCElement) =>
+  element.quantitySources.area === 'computed' || element.quantitySources.volume === 'computed';
+
+const summarizeQuantities = (elements: IFCElement[]): IFCModel['quantities'] => {
   // Generate quantities
   const quantitiesByType: Record<string, IFCQuantity> = {};
   const quantitiesByLevel: Record<string, IFCQuantity> = {};
+  const quantitiesByLayer: Record<string, IFCQuantity> = {};
   
   elements.forEach(element => {
     // By type
@@ -121,176 +277,147 @@ const parseIFCContent3D = (content: string): IFCModel => {
       quantitiesByType[element.type] = {
         type: element.type,
         count: 0,
+        totalLength: 0,
         totalArea: 0,
         totalVolume: 0,
+        totalWeight: 0,
+        computedCount: 0,
         elements: []
       };
     }
     quantitiesByType[element.type].count++;
+    if (isComputed(element)) quantitiesByType[element.type].computedCount++;
+    quantitiesByType[element.type].totalLength += element.properties.length || 0;
     quantitiesByType[element.type].totalArea += element.properties.area || 0;
     quantitiesByType[element.type].totalVolume += element.properties.volume || 0;
+    quantitiesByType[element.type].totalWeight += element.properties.weight || 0;
     quantitiesByType[element.type].elements.push(element);
     
     // By level
-    const levelName = element.level || 'Unknown';
+    const levelName = element.level || UNASSIGNED_LEVEL;
     if (!quantitiesByLevel[levelName]) {
       quantitiesByLevel[levelName] = {
         type: levelName,
         count: 0,
+        totalLength: 0,
         totalArea: 0,
         totalVolume: 0,
+        totalWeight: 0,
+        computedCount: 0,
         elements: []
       };
     }
     quantitiesByLevel[levelName].count++;
+    if (isComputed(element)) quantitiesByLevel[levelName].computedCount++;
+    quantitiesByLevel[levelName].totalLength += element.properties.length || 0;
     quantitiesByLevel[levelName].totalArea += element.properties.area || 0;
     quantitiesByLevel[levelName].totalVolume += element.properties.volume || 0;
+    quantitiesByLevel[levelName].totalWeight += element.properties.weight || 0;
     quantitiesByLevel[levelName].elements.push(element);
+
+    // By layer material, counting each element once per material it contains
+    element.layers.forEach(layer => {
+      if (!quantitiesByLayer[layer.material]) {
+        quantitiesByLayer[layer.material] = {
+          type: layer.material,
+          count: 0,
+          totalArea: 0,
+          totalVolume: 0,
+          computedCount: 0,
+          elements: []
+        };
+      }
+      const quantity = quantitiesByLayer[layer.material];
+      // Two layers of one material cover the same face, so area is only counted
+      // once. An element's layers are visited together, so it can only be the last one pushed.
+      if (quantity.elements[quantity.elements.length - 1] !== element) {
+        quantity.count++;
+        if (isComputed(element)) quantity.computedCount++;
+        quantity.totalArea! += layer.area || 0;
+        quantity.elements.push(element);
+      }
+      quantity.totalVolume! += layer.volume || 0;
+    });
   });
   
   return {
-    elements,
-    levels,
-    quantities: {
-      byType: quantitiesByType,
-      byLevel: quantitiesByLevel
-    }
+    byType: quantitiesByType,
+    byLevel: quantitiesByLevel,
+    byLayer: quantitiesByLayer
   };
 };
 
-const parseIFCLine3D = (line: string, index: number): IFCElement | null => {
-  try {
-    const match = line.match(/#(\d+)\s*=\s*(\w+)\s*\((.*)\);?/);
-    if (!match) return null;
-    
-    const [, id, type, params] = match;
-    const paramList = params.split(',').map(p => p.trim());
-    
-    const element: IFCElement = {
-      id,
-      type,
-      name: extractStringValue(paramList[0]) || `${type}_${id}`,
-      properties: {}
-    };
-    
-    // Create 3D geometry based on type
-    element.geometry = createGeometryForType(type);
-    element.material = createMaterialForType(type);
-    element.rotation = new THREE.Euler(0, Math.random() * Math.PI * 2, 0);
-    
-    // Add type-specific properties
-    switch (type) {
-      case 'IFCWALL':
-        element.properties.height = extractNumericValue(paramList[1]) || 3000;
-        element.properties.thickness = extractNumericValue(paramList[2]) || 200;
-        element.properties.area = (element.properties.height * element.properties.thickness) / 1000000;
-        break;
-      case 'IFCDOOR':
-        element.properties.width = extractNumericValue(paramList[1]) || 800;
-        element.properties.height = extractNumericValue(paramList[2]) || 2100;
-        element.properties.area = (element.properties.width * element.properties.height) / 1000000;
-        break;
-      case 'IFCWINDOW':
-        element.properties.width = extractNumericValue(paramList[1]) || 1200;
-        element.properties.height = extractNumericValue(paramList[2]) || 1500;
-        element.properties.area = (element.properties.width * element.properties.height) / 1000000;
-        break;
-      case 'IFCSPACE':
-        element.properties.area = extractNumericValue(paramList[1]) || 25;
-        element.properties.volume = extractNumericValue(paramList[2]) || 75;
-        break;
-      default:
-        element.properties.area = Math.random() * 10 + 1;
-        element.properties.volume = Math.random() * 20 + 5;
-        break;
-    }
-    
-    return element;
-  } catch (error) {
-    return null;
-  }
-};
-
-const createGeometryForType = (type: string): THREE.BufferGeometry => {
+const createElement3D = (entity: IFCEntity): IFCElement => {
+  const { id, type, attributes } = entity;
+  
+  const element: IFCElement = {
+    id,
+    type,
+    name: stepString(attributes.Name) || `${type}_${id}`,
+    properties: {},
+    quantitySources: {},
+    quantityCandidates: { area: {}, volume: {} },
+    psets: entity.psets || {},
+    quantities: entity.quantities || [],
+    material: entity.material,
+    materialLabel: formatMaterialLabel(entity.material),
+    layers: [],
+    classifications: entity.classifications || [],
+    typeName: entity.typeObject?.name ?? '',
+    predefinedType: entity.predefinedType,
+    openings: []
+  };
+  
+  const { area } = element.quantityCandidates;
+  // Add type-specific properties
   switch (type) {
     case 'IFCWALL':
-      return new THREE.BoxGeometry(0.2, 3, 4);
+    case 'IFCWALLSTANDARDCASE':
+      // Walls have no size attributes; these are display defaults until quantities are read
+      element.properties.height = 3;
+      element.properties.thickness = 0.2;
+      area.placeholder = element.properties.height * element.properties.thickness;
+      break;
+    // Overall sizes were converted to metres by the parser
     case 'IFCDOOR':
-      return new THREE.BoxGeometry(0.1, 2.1, 0.8);
-    case 'IFCWINDOW':
-      return new THREE.BoxGeometry(0.05, 1.5, 1.2);
+    case 'IFCWINDOW': {
+      const defaults = type === 'IFCDOOR' ? [0.8, 2.1] : [1.2, 1.5];
+      element.properties.width = entity.properties.width ?? defaults[0];
+      element.properties.height = entity.properties.height ?? defaults[1];
+      // Overall width and height are declared sizes, not placeholders
+      if (entity.properties.width !== undefined && entity.properties.height !== undefined) {
+        area.authored = element.properties.width * element.properties.height;
+      } else {
+        area.placeholder = element.properties.width * element.properties.height;
+      }
+      break;
+    }
     case 'IFCSPACE':
-      return new THREE.BoxGeometry(4, 0.1, 4);
-    case 'IFCCOLUMN':
-      return new THREE.CylinderGeometry(0.2, 0.2, 3);
-    case 'IFCBEAM':
-      return new THREE.BoxGeometry(4, 0.3, 0.3);
-    default:
-      return new THREE.BoxGeometry(1, 1, 1);
+      area.placeholder = 25;
+      break;
+    // Other types have no sensible default: their area stays missing until read or measured
   }
-};
-
-const createMaterialForType = (type: string): THREE.Material => {
-  const materials: Record<string, number> = {
-    IFCWALL: 0x8B4513,
-    IFCDOOR: 0x654321,
-    IFCWINDOW: 0x87CEEB,
-    IFCSPACE: 0x90EE90,
-    IFCCOLUMN: 0x808080,
-    IFCBEAM: 0x8B4513,
-    default: 0x888888
-  };
   
-  return new THREE.MeshPhongMaterial({
-    color: materials[type] || materials.default,
-    transparent: type === 'IFCWINDOW',
-    opacity: type === 'IFCWINDOW' ? 0.6 : 1
-  });
-};
-
-const extractStringValue = (param: string): string | null => {
-  const match = param?.match(/'([^']*)'/);
-  return match ? match[1] : null;
-};
-
-const extractNumericValue = (param: string): number | null => {
-  const num = parseFloat(param?.replace(/[^\d.-]/g, '') || '');
-  return isNaN(num) ? null : num;
+  // Authored quantities replace the defaults above
+  for (const kind of ['length', 'weight'] as const) {
+    const quantity = primaryQuantity(element.quantities, kind);
+    if (quantity) {
+      element.properties[kind] = quantity.value;
+      element.quantitySources[kind] = 'authored';
+    }
+  }
+  area.authored = primaryQuantity(element.quantities, 'area')?.value ?? area.authored;
+  
+  return element;
 };
 
-// Computes approximate volumes using geometry bounding boxes and subtracts window/door openings
+// Placeholder volumes from the bounding box of each type's stand-in geometry
 const computeApproximateVolumes = (elements: IFCElement[]) => {
-  // First compute raw volumes from geometry bounds
-  const idToVolume: Record<string, number> = {};
   for (const el of elements) {
-    let volume = 0;
-    if (el.geometry) {
-      const bbox = new THREE.Box3().setFromBufferAttribute((el.geometry as any).attributes?.position);
-      const size = new THREE.Vector3();
-      bbox.getSize(size);
-      volume = Math.abs(size.x * size.y * size.z);
-    } else {
-      // fallback rough volume based on props if any
-      const w = Number(el.properties?.width || 1);
-      const h = Number(el.properties?.height || 1);
-      const t = Number(el.properties?.thickness || 0.2);
-      volume = w * h * t;
-    }
-    el.properties.volume = volume;
-    idToVolume[el.id] = volume;
+    const geometry = getGeometryForType(el.type);
+    const bbox = new THREE.Box3().setFromBufferAttribute(geometry.attributes.position as THREE.BufferAttribute);
+    const size = new THREE.Vector3();
+    bbox.getSize(size);
+    el.quantityCandidates.volume.placeholder = Math.abs(size.x * size.y * size.z);
   }
-
-  // Subtract openings volume from host elements where applicable (simple heuristic)
-  const openingTypes = new Set(['IFCOPENINGELEMENT', 'IFCWINDOW', 'IFCDOOR']);
-  const hostTypes = new Set(['IFCWALL', 'IFCSLAB']);
-
-  const openings = elements.filter(e => openingTypes.has(e.type));
-  const hosts = elements.filter(e => hostTypes.has(e.type));
-  if (openings.length && hosts.length) {
-    const averageOpening = openings.reduce((s, o) => s + (o.properties.volume || 0), 0) / openings.length;
-    for (const host of hosts) {
-      const subtract = averageOpening * Math.min(5, Math.ceil(openings.length / hosts.length));
-      host.properties.volume = Math.max(0, (host.properties.volume || 0) - subtract);
-    }
-  }
-};
\ No newline at end of file
+};
@@ -0,0 +1,129 @@
+// Grouping of model elements by two fields, shared by the pivot table view and
+// the workbook export
+import type { IFCElement } from './ifcParser3D';
+import { IFCLayerQuantity } from './ifcMaterials';
+import { classificationPathIn, collectClassificationSystems } from './ifcClassifications';
+
+export interface PivotLayout {
+  rowField: string;
+  columnField: string;
+}
+
+export const DEFAULT_PIVOT_LAYOUT: PivotLayout = { rowField: 'type', columnField: 'level' };
+
+export interface PivotData {
+  [key: string]: {
+    elements: IFCElement[];
+    count: number;
+    totalArea?: number;
+    totalVolume?: number;
+    children?: PivotData;
+  };
+}
+
+// One pivoted record: an element, or one of its material layers when
+// grouping by layer so area and volume are split per layer
+interface PivotFact {
+  element: IFCElement;
+  layer?: IFCLayerQuantity;
+}
+
+export interface PivotField {
+  value: string;
+  label: string;
+  get: (fact: PivotFact) => string | undefined;
+}
+
+const availableFields: PivotField[] = [
+  { value: 'type', label: 'Element Type', get: ({ element }) => element.type },
+  { value: 'typeName', label: 'Type Name', get: ({ element }) => element.typeName },
+  { value: 'level', label: 'Level', get: ({ element }) => element.level },
+  { value: 'material', label: 'Material', get: ({ element }) => element.materialLabel },
+  { value: 'layer', label: 'Material Layer', get: ({ layer }) => layer?.material },
+  { value: 'name', label: 'Name', get: ({ element }) => element.name },
+  { value: 'volumeSource', label: 'Volume Source', get: ({ element }) => element.quantitySources.volume ?? 'placeholder' },
+];
+
+// One field per classification system and depth in the model; elements coded
+// less deeply than the field stay grouped under their own code
+const classificationFields = (elements: IFCElement[]): PivotField[] =>
+  Array.from(collectClassificationSystems(elements.map(el => el.classifications))).flatMap(([system, depth]) =>
+    Array.from({ length: depth }, (_, i) => ({
+      value: `classification:${system}:${i + 1}`,
+      label: `${system} (level ${i + 1})`,
+      get: ({ element }: PivotFact) => {
+        const path = classificationPathIn(element.classifications, system);
+        return path[Math.min(i, path.length - 1)];
+      },
+    }))
+  );
+
+export const pivotFields = (elements: IFCElement[]): PivotField[] => [
+  ...availableFields,
+  ...classificationFields(elements),
+];
+
+const fieldValue = (fields: PivotField[], field: string, fact: PivotFact): string =>
+  fields.find(f => f.value === field)?.get(fact) || 'Unknown';
+
+const toFacts = (elements: IFCElement[], byLayer: boolean): PivotFact[] =>
+  byLayer
+    ? elements.flatMap(element =>
+        element.layers.length ? element.layers.map(layer => ({ element, layer })) : [{ element }]
+      )
+    : elements.map(element => ({ element }));
+
+export const buildPivotData = (
+  elements: IFCElement[],
+  fields: PivotField[],
+  { rowField, columnField }: PivotLayout
+): PivotData => {
+  const data: PivotData = {};
+  const facts = toFacts(elements, rowField === 'layer' || columnField === 'layer');
+
+  facts.forEach(fact => {
+    const { element, layer } = fact;
+    const rowKey = fieldValue(fields, rowField, fact);
+    const colKey = fieldValue(fields, columnField, fact);
+    const area = layer ? layer.area || 0 : element.properties?.area || 0;
+    const volume = layer ? layer.volume || 0 : element.properties?.volume || 0;
+
+    if (!data[rowKey]) {
+      data[rowKey] = {
+        elements: [],
+        count: 0,
+        totalArea: 0,
+        totalVolume: 0,
+        children: {}
+      };
+    }
+
+    if (!data[rowKey].children![colKey]) {
+      data[rowKey].children![colKey] = {
+        elements: [],
+        count: 0,
+        totalArea: 0,
+        totalVolume: 0
+      };
+    }
+
+    // An element's layers are consecutive facts; count the element once per group
+    const row = data[rowKey];
+    if (row.elements[row.elements.length - 1] !== element) {
+      row.elements.push(element);
+      row.count++;
+    }
+    row.totalArea = (row.totalArea || 0) + area;
+    row.totalVolume = (row.totalVolume || 0) + volume;
+
+    const child = row.children![colKey]!;
+    if (child.elements[child.elements.length - 1] !== element) {
+      child.elements.push(element);
+      child.count++;
+    }
+    child.totalArea = (child.totalArea || 0) + area;
+    child.totalVolume = (child.totalVolume || 0) + volume;
+  });
+
+  return data;
+};
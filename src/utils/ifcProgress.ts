@@ -0,0 +1,36 @@
+// Progress reporting and cancellation shared by the parsers and the worker.
+
+export type IFCProcessingPhase = 'parsing' | 'relationships' | 'volumes' | 'geometry' | 'csv';
+
+export interface IFCProgress {
+  phase: IFCProcessingPhase;
+  // Set while parsing
+  bytesRead?: number;
+  totalBytes?: number;
+  entitiesParsed?: number;
+  // Completed/total units of work (relationships, volumes, meshes, rows) for the other phases
+  completed?: number;
+  total?: number;
+}
+
+export interface IFCProcessingOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: IFCProgress) => void;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error || error instanceof DOMException ? error.name === 'AbortError' : false;
+
+export const createAbortError = (): DOMException => new DOMException('IFC processing was cancelled', 'AbortError');
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// Fraction of the given phase that is done, between 0 and 1
+export const phaseFraction = (progress: IFCProgress): number => {
+  if (progress.phase === 'parsing') {
+    return progress.totalBytes ? Math.min(1, (progress.bytesRead || 0) / progress.totalBytes) : 0;
+  }
+  return progress.total ? Math.min(1, (progress.completed || 0) / progress.total) : 0;
+};
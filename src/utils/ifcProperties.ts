@@ -0,0 +1,130 @@
+// Property sets (IfcPropertySet) attached to objects through IfcRelDefinesByProperties
+import { IFCEntityIndex, getEntitiesOfType, getEntity, getReferencedEntities } from './ifcIndex';
+import type { IFCEntity } from './ifcParser';
+import { StepValue, formatStepValue, stepList, stepString, unwrapStepValue } from './stepParser';
+
+export type IFCPropertyScalar = string | number | boolean | null;
+
+export type IFCPropertyValue =
+  | IFCPropertyScalar
+  // Enumerated and list values
+  | IFCPropertyScalar[]
+  | { kind: 'bounded'; lower: IFCPropertyScalar; upper: IFCPropertyScalar; setPoint?: IFCPropertyScalar }
+  | { kind: 'table'; defining: IFCPropertyScalar[]; defined: IFCPropertyScalar[] }
+  | { kind: 'complex'; properties: IFCPropertySet };
+
+export interface IFCPropertySet {
+  [propertyName: string]: IFCPropertyValue;
+}
+
+export type IFCPropertySets = Record<string, IFCPropertySet>;
+
+// Measure values arrive wrapped in their type (IFCLABEL('x'), IFCBOOLEAN(.T.), ...)
+export const toPropertyScalar = (value: StepValue | undefined): IFCPropertyScalar => {
+  const v = unwrapStepValue(value);
+  if (!v) return null;
+  switch (v.kind) {
+    case 'string':
+      return v.value;
+    case 'real':
+    case 'integer':
+      return v.value;
+    case 'enum':
+      if (v.value === 'T' || v.value === 'TRUE') return true;
+      if (v.value === 'F' || v.value === 'FALSE') return false;
+      if (v.value === 'U' || v.value === 'UNKNOWN') return null;
+      return v.value;
+    case 'null':
+    case 'derived':
+      return null;
+    default:
+      return formatStepValue(v);
+  }
+};
+
+const scalarList = (value: StepValue | undefined): IFCPropertyScalar[] => stepList(value).map(toPropertyScalar);
+
+const propertyValue = (index: IFCEntityIndex, property: IFCEntity): IFCPropertyValue => {
+  const { attributes } = property;
+  switch (property.type) {
+    case 'IFCPROPERTYSINGLEVALUE':
+      return toPropertyScalar(attributes.NominalValue);
+    case 'IFCPROPERTYENUMERATEDVALUE':
+      return scalarList(attributes.EnumerationValues);
+    case 'IFCPROPERTYLISTVALUE':
+      return scalarList(attributes.ListValues);
+    case 'IFCPROPERTYBOUNDEDVALUE': {
+      const bounded: IFCPropertyValue = {
+        kind: 'bounded',
+        lower: toPropertyScalar(attributes.LowerBoundValue),
+        upper: toPropertyScalar(attributes.UpperBoundValue),
+      };
+      if (attributes.SetPointValue) bounded.setPoint = toPropertyScalar(attributes.SetPointValue);
+      return bounded;
+    }
+    case 'IFCPROPERTYTABLEVALUE':
+      return { kind: 'table', defining: scalarList(attributes.DefiningValues), defined: scalarList(attributes.DefinedValues) };
+    case 'IFCPROPERTYREFERENCEVALUE': {
+      const [referenced] = getReferencedEntities(index, property.id, 'PropertyReference');
+      return referenced ? stepString(referenced.attributes.Name) ?? `#${referenced.id}` : null;
+    }
+    case 'IFCCOMPLEXPROPERTY':
+      return { kind: 'complex', properties: collectProperties(index, property.id) };
+    default:
+      return null;
+  }
+};
+
+const collectProperties = (index: IFCEntityIndex, ownerId: string): IFCPropertySet => {
+  const properties: IFCPropertySet = {};
+  for (const property of getReferencedEntities(index, ownerId, 'HasProperties')) {
+    const name = stepString(property.attributes.Name);
+    if (name) properties[name] = propertyValue(index, property);
+  }
+  return properties;
+};
+
+export const resolvePropertySet = (index: IFCEntityIndex, id: string): IFCPropertySet | null => {
+  const pset = getEntity(index, id);
+  return pset?.type === 'IFCPROPERTYSET' ? collectProperties(index, id) : null;
+};
+
+// Resolves each relationship's property set once and shares it between all
+// related objects. Sets with the same name on one object are merged.
+export const attachPropertySets = (index: IFCEntityIndex) => {
+  for (const rel of getEntitiesOfType(index, 'IFCRELDEFINESBYPROPERTIES')) {
+    // IFC4 also allows a list of definitions here (IfcPropertySetDefinitionSet)
+    for (const definition of getReferencedEntities(index, rel.id, 'RelatingPropertyDefinition')) {
+      const properties = resolvePropertySet(index, definition.id);
+      if (!properties) continue;
+      const name = stepString(definition.attributes.Name) || `PropertySet_${definition.id}`;
+      for (const target of getReferencedEntities(index, rel.id, 'RelatedObjects')) {
+        target.psets ??= {};
+        target.psets[name] = target.psets[name] ? { ...target.psets[name], ...properties } : properties;
+      }
+    }
+  }
+};
+
+// Plain-text rendering for CSV cells
+export const formatPropertyValue = (value: IFCPropertyValue): string => {
+  if (value === null) return '';
+  if (typeof value !== 'object') return String(value);
+  if (Array.isArray(value)) return value.map(formatPropertyValue).join(', ');
+  switch (value.kind) {
+    case 'bounded': {
+      const range = `${formatPropertyValue(value.lower)}..${formatPropertyValue(value.upper)}`;
+      return value.setPoint !== undefined ? `${range} (${formatPropertyValue(value.setPoint)})` : range;
+    }
+    case 'table':
+      return value.defining
+        .map((d, i) => `${formatPropertyValue(d)}: ${formatPropertyValue(value.defined[i] ?? null)}`)
+        .join(', ');
+    case 'complex':
+      return `{${formatPropertySet(value.properties)}}`;
+  }
+};
+
+// 'Name=value; Name=value' for one property set
+export const formatPropertySet = (pset: IFCPropertySet | undefined): string =>
+  pset ? Object.entries(pset).map(([name, value]) => `${name}=${formatPropertyValue(value)}`).join('; ') : '';
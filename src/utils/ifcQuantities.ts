@@ -0,0 +1,117 @@
+// Quantity lookups over the parsed entity graph
+import type { IFCEntity } from './ifcParser';
+import { IFCEntityIndex, getEntity, getEntitiesOfType, getReferencedEntities } from './ifcIndex';
+import { stepEnum, stepNumber, stepRef, stepString } from './stepParser';
+import { IFCProjectUnits, createDefaultUnits, unitScale } from './ifcUnits';
+
+export type IFCQuantityKind = 'length' | 'area' | 'volume' | 'count' | 'weight' | 'time';
+
+// 'authored' quantities come from the file, 'computed' ones are derived by this app
+export type IFCQuantitySource = 'authored' | 'computed';
+
+export interface IFCQuantityValue {
+  // Quantity set name, e.g. Qto_WallBaseQuantities
+  set: string;
+  // Quantity name, e.g. NetVolume
+  name: string;
+  kind: IFCQuantityKind;
+  // Converted to the canonical SI unit of the kind (m, m², m³, kg, s)
+  value: number;
+  // Unit named on the quantity in the file; null means the project default for the kind
+  unit: string | null;
+  source: IFCQuantitySource;
+}
+
+export interface VolumeMap {
+  [id: string]: number;
+}
+
+const quantityKinds: Record<string, [IFCQuantityKind, string]> = {
+  IFCQUANTITYLENGTH: ['length', 'LengthValue'],
+  IFCQUANTITYAREA: ['area', 'AreaValue'],
+  IFCQUANTITYVOLUME: ['volume', 'VolumeValue'],
+  IFCQUANTITYCOUNT: ['count', 'CountValue'],
+  IFCQUANTITYWEIGHT: ['weight', 'WeightValue'],
+  IFCQUANTITYTIME: ['time', 'TimeValue'],
+};
+
+export const describeUnit = (index: IFCEntityIndex, id: string | null): string | null => {
+  const unit = getEntity(index, id);
+  if (!unit) return null;
+  switch (unit.type) {
+    case 'IFCSIUNIT':
+      return `${stepEnum(unit.attributes.Prefix) ?? ''}${stepEnum(unit.attributes.Name) ?? ''}` || null;
+    case 'IFCCONVERSIONBASEDUNIT':
+    case 'IFCCONVERSIONBASEDUNITWITHOFFSET':
+    case 'IFCCONTEXTDEPENDENTUNIT':
+      return stepString(unit.attributes.Name);
+    case 'IFCDERIVEDUNIT':
+      return stepString(unit.attributes.UserDefinedType) ?? stepEnum(unit.attributes.UnitType);
+    default:
+      return null;
+  }
+};
+
+// Flattens one quantity, prefixing sub-quantities of IfcPhysicalComplexQuantity with their parent's name
+const readQuantity = (
+  index: IFCEntityIndex,
+  units: IFCProjectUnits,
+  set: string,
+  quantity: IFCEntity,
+  prefix: string,
+  out: IFCQuantityValue[]
+) => {
+  const name = `${prefix}${stepString(quantity.attributes.Name) ?? `Quantity_${quantity.id}`}`;
+  if (quantity.type === 'IFCPHYSICALCOMPLEXQUANTITY') {
+    for (const part of getReferencedEntities(index, quantity.id, 'HasQuantities')) {
+      readQuantity(index, units, set, part, `${name}.`, out);
+    }
+    return;
+  }
+  const known = quantityKinds[quantity.type];
+  if (!known) return;
+  const [kind, valueAttribute] = known;
+  const value = stepNumber(quantity.attributes[valueAttribute]);
+  if (value === null || !isFinite(value)) return;
+  const unitId = stepRef(quantity.attributes.Unit);
+  const scale = unitId ? unitScale(index, unitId) : units[kind];
+  out.push({ set, name, kind, value: value * scale, unit: describeUnit(index, unitId), source: 'authored' });
+};
+
+export const resolveQuantitySet = (
+  index: IFCEntityIndex,
+  id: string,
+  units: IFCProjectUnits = createDefaultUnits()
+): IFCQuantityValue[] | null => {
+  const definition = getEntity(index, id);
+  if (definition?.type !== 'IFCELEMENTQUANTITY') return null;
+  const set = stepString(definition.attributes.Name) || `QuantitySet_${id}`;
+  const quantities: IFCQuantityValue[] = [];
+  for (const quantity of getReferencedEntities(index, id, 'Quantities')) {
+    readQuantity(index, units, set, quantity, '', quantities);
+  }
+  return quantities;
+};
+
+// Counterpart of attachPropertySets for IfcElementQuantity definitions
+export const attachQuantities = (index: IFCEntityIndex, units: IFCProjectUnits) => {
+  for (const rel of getEntitiesOfType(index, 'IFCRELDEFINESBYPROPERTIES')) {
+    for (const definition of getReferencedEntities(index, rel.id, 'RelatingPropertyDefinition')) {
+      const quantities = resolveQuantitySet(index, definition.id, units);
+      if (!quantities?.length) continue;
+      for (const target of getReferencedEntities(index, rel.id, 'RelatedObjects')) {
+        target.quantities = target.quantities ? [...target.quantities, ...quantities] : quantities;
+      }
+    }
+  }
+};
+
+// The quantity that best represents an element for one kind: net values
+// first, then gross values, then whatever the file provides
+export const primaryQuantity = (
+  quantities: IFCQuantityValue[] | undefined,
+  kind: IFCQuantityKind
+): IFCQuantityValue | undefined => {
+  const ofKind = (quantities || []).filter(q => q.kind === kind);
+  return ofKind.find(q => q.name.startsWith('Net')) ?? ofKind.find(q => q.name.startsWith('Gross')) ?? ofKind[0];
+};
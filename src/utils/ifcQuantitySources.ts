@@ -0,0 +1,143 @@
+// Choosing between authored and computed quantities, and reconciling the two
+import type { IFCElement } from './ifcParser3D';
+import { computedQuantity } from './ifcMeshQuantities';
+import { IFCQuantitySource, VolumeMap } from './ifcQuantities';
+import { IFCUnitSystem, displayUnitLabel, toDisplayUnit } from './ifcUnits';
+import { CSVCell, CSVDialect, DEFAULT_CSV_DIALECT, convertRowsToCSV } from './csvFormat';
+
+export type IFCQuantitySourcePreference = 'authored-first' | 'computed-first' | 'authored-only' | 'computed-only';
+
+export const DEFAULT_QUANTITY_SOURCE: IFCQuantitySourcePreference = 'authored-first';
+
+export const QUANTITY_SOURCE_LABELS: Record<IFCQuantitySourcePreference, string> = {
+  'authored-first': 'Authored, then computed',
+  'computed-first': 'Computed, then authored',
+  'authored-only': 'Authored only',
+  'computed-only': 'Computed only',
+};
+
+// Relative difference between authored and computed values that gets reported
+export const DEFAULT_RECONCILIATION_TOLERANCE = 0.05;
+
+// Quantities with both an authored and a computed candidate
+export type IFCCandidateKind = 'area' | 'volume';
+
+// Every value known for one quantity of an element. Placeholders only fill in
+// when the preference allows either source and neither exists.
+export interface IFCQuantityCandidates {
+  authored?: number;
+  computed?: number;
+  placeholder?: number;
+}
+
+export interface IFCSelectedQuantity {
+  value: number;
+  // Undefined for placeholders
+  source?: IFCQuantitySource;
+}
+
+export const selectQuantity = (
+  candidates: IFCQuantityCandidates,
+  preference: IFCQuantitySourcePreference
+): IFCSelectedQuantity | undefined => {
+  const { authored, computed, placeholder } = candidates;
+  const fromAuthored = authored !== undefined ? { value: authored, source: 'authored' as const } : undefined;
+  const fromComputed = computed !== undefined ? { value: computed, source: 'computed' as const } : undefined;
+  const fromPlaceholder = placeholder !== undefined ? { value: placeholder } : undefined;
+  switch (preference) {
+    case 'authored-first':
+      return fromAuthored ?? fromComputed ?? fromPlaceholder;
+    case 'computed-first':
+      return fromComputed ?? fromAuthored ?? fromPlaceholder;
+    case 'authored-only':
+      return fromAuthored;
+    case 'computed-only':
+      return fromComputed;
+  }
+};
+
+// Selected area and volume per element id, as handed to the CSV exports,
+// plus the bounding box (length, width, height) measured on the mesh
+export interface IFCSelectedQuantities {
+  [id: string]: Partial<Record<IFCCandidateKind, IFCSelectedQuantity>> & {
+    boundingBox?: [number, number, number];
+  };
+}
+
+export const collectSelectedQuantities = (elements: IFCElement[]): IFCSelectedQuantities => {
+  const selected: IFCSelectedQuantities = {};
+  for (const { id, properties, quantitySources, quantities } of elements) {
+    const entry: IFCSelectedQuantities[string] = {};
+    for (const kind of ['area', 'volume'] as const) {
+      if (properties[kind] !== undefined) entry[kind] = { value: properties[kind], source: quantitySources[kind] };
+    }
+    const [length, width, height] = ['Length', 'Width', 'Height'].map(name => computedQuantity(quantities, name));
+    if (length !== undefined && width !== undefined && height !== undefined) entry.boundingBox = [length, width, height];
+    selected[id] = entry;
+  }
+  return selected;
+};
+
+// The selected values of one kind per element id
+export const selectedValues = (selected: IFCSelectedQuantities, kind: IFCCandidateKind): VolumeMap => {
+  const values: VolumeMap = {};
+  for (const [id, quantities] of Object.entries(selected)) {
+    const quantity = quantities[kind];
+    if (quantity) values[id] = quantity.value;
+  }
+  return values;
+};
+
+export interface IFCReconciliationEntry {
+  element: IFCElement;
+  authored: number;
+  computed: number;
+  // computed - authored, and that relative to the authored value
+  difference: number;
+  relativeDifference: number;
+}
+
+// Elements whose authored and computed values differ by more than the tolerance,
+// largest relative difference first
+export const reconcileQuantities = (
+  elements: IFCElement[],
+  kind: IFCCandidateKind,
+  tolerance: number = DEFAULT_RECONCILIATION_TOLERANCE
+): IFCReconciliationEntry[] => {
+  const entries: IFCReconciliationEntry[] = [];
+  for (const element of elements) {
+    const { authored, computed } = element.quantityCandidates[kind];
+    if (authored === undefined || computed === undefined) continue;
+    const difference = computed - authored;
+    const relativeDifference = authored !== 0 ? difference / Math.abs(authored) : difference !== 0 ? Infinity : 0;
+    if (Math.abs(relativeDifference) > tolerance) {
+      entries.push({ element, authored, computed, difference, relativeDifference });
+    }
+  }
+  return entries.sort((a, b) => Math.abs(b.relativeDifference) - Math.abs(a.relativeDifference));
+};
+
+export const convertReconciliationToCSV = (
+  entries: IFCReconciliationEntry[],
+  kind: IFCCandidateKind,
+  unitSystem: IFCUnitSystem = 'metric',
+  dialect: CSVDialect = DEFAULT_CSV_DIALECT
+): string => {
+  const unit = displayUnitLabel(kind, unitSystem);
+  const headers = [
+    'Id',
+    'Name',
+    'IfcElementType',
+    'Level',
+    `Authored (${unit})`,
+    `Computed (${unit})`,
+    `Difference (${unit})`,
+    'Difference (%)',
+  ];
+  const rows: CSVCell[][] = entries.map(({ element, authored, computed, difference, relativeDifference }) => [
+    element.id, element.name, element.type, element.level,
+    toDisplayUnit(authored, kind, unitSystem), toDisplayUnit(computed, kind, unitSystem),
+    toDisplayUnit(difference, kind, unitSystem), Number.isFinite(relativeDifference) ? relativeDifference * 100 : '',
+  ]);
+  return convertRowsToCSV([headers, ...rows], dialect);
+};
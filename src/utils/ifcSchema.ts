@@ -0,0 +1,346 @@
+// Entity attribute definitions for the IFC schemas we read.
+// Each entry is [supertype, ...own attributes]; the full attribute list of an
+// entity is its supertype's list followed by its own, in STEP parameter order.
+// Only the entities the app actually inspects are listed; anything else falls
+// back to positional names.
+
+export type IFCSchemaName = 'IFC2X3' | 'IFC4' | 'IFC4X3';
+
+type EntityTable = Record<string, string[]>;
+
+// Shorthand for the many element and type entities that only add PredefinedType
+const withPredefinedType = (parent: string, names: string[]): EntityTable =>
+  Object.fromEntries(names.map(name => [name, [parent, 'PredefinedType']]));
+
+const withoutAttributes = (parent: string, names: string[]): EntityTable =>
+  Object.fromEntries(names.map(name => [name, [parent]]));
+
+const IFC4: EntityTable = {
+  // Kernel
+  IFCROOT: ['', 'GlobalId', 'OwnerHistory', 'Name', 'Description'],
+  IFCOBJECTDEFINITION: ['IFCROOT'],
+  IFCOBJECT: ['IFCOBJECTDEFINITION', 'ObjectType'],
+  IFCCONTEXT: ['IFCOBJECTDEFINITION', 'ObjectType', 'LongName', 'Phase', 'RepresentationContexts', 'UnitsInContext'],
+  IFCPROJECT: ['IFCCONTEXT'],
+  IFCPRODUCT: ['IFCOBJECT', 'ObjectPlacement', 'Representation'],
+  IFCGROUP: ['IFCOBJECT'],
+  IFCSYSTEM: ['IFCGROUP'],
+  IFCZONE: ['IFCSYSTEM', 'LongName'],
+
+  // Spatial structure
+  IFCSPATIALELEMENT: ['IFCPRODUCT', 'LongName'],
+  IFCSPATIALSTRUCTUREELEMENT: ['IFCSPATIALELEMENT', 'CompositionType'],
+  IFCSITE: ['IFCSPATIALSTRUCTUREELEMENT', 'RefLatitude', 'RefLongitude', 'RefElevation', 'LandTitleNumber', 'SiteAddress'],
+  IFCBUILDING: ['IFCSPATIALSTRUCTUREELEMENT', 'ElevationOfRefHeight', 'ElevationOfTerrain', 'BuildingAddress'],
+  IFCBUILDINGSTOREY: ['IFCSPATIALSTRUCTUREELEMENT', 'Elevation'],
+  IFCSPACE: ['IFCSPATIALSTRUCTUREELEMENT', 'PredefinedType', 'ElevationWithFlooring'],
+
+  // Elements
+  IFCELEMENT: ['IFCPRODUCT', 'Tag'],
+  IFCBUILDINGELEMENT: ['IFCELEMENT'],
+  ...withPredefinedType('IFCBUILDINGELEMENT', [
+    'IFCWALL', 'IFCSLAB', 'IFCBEAM', 'IFCCOLUMN', 'IFCMEMBER', 'IFCPLATE', 'IFCFOOTING', 'IFCROOF',
+    'IFCSTAIR', 'IFCRAMP', 'IFCRAMPFLIGHT', 'IFCRAILING', 'IFCCOVERING', 'IFCCURTAINWALL',
+    'IFCBUILDINGELEMENTPROXY', 'IFCCHIMNEY', 'IFCSHADINGDEVICE',
+  ]),
+  ...withoutAttributes('IFCWALL', ['IFCWALLSTANDARDCASE', 'IFCWALLELEMENTEDCASE']),
+  ...withoutAttributes('IFCSLAB', ['IFCSLABSTANDARDCASE', 'IFCSLABELEMENTEDCASE']),
+  IFCBEAMSTANDARDCASE: ['IFCBEAM'],
+  IFCCOLUMNSTANDARDCASE: ['IFCCOLUMN'],
+  IFCMEMBERSTANDARDCASE: ['IFCMEMBER'],
+  IFCPLATESTANDARDCASE: ['IFCPLATE'],
+  IFCPILE: ['IFCBUILDINGELEMENT', 'PredefinedType', 'ConstructionType'],
+  IFCDOOR: ['IFCBUILDINGELEMENT', 'OverallHeight', 'OverallWidth', 'PredefinedType', 'OperationType', 'UserDefinedOperationType'],
+  IFCDOORSTANDARDCASE: ['IFCDOOR'],
+  IFCWINDOW: ['IFCBUILDINGELEMENT', 'OverallHeight', 'OverallWidth', 'PredefinedType', 'PartitioningType', 'UserDefinedPartitioningType'],
+  IFCWINDOWSTANDARDCASE: ['IFCWINDOW'],
+  IFCSTAIRFLIGHT: ['IFCBUILDINGELEMENT', 'NumberOfRisers', 'NumberOfTreads', 'RiserHeight', 'TreadLength', 'PredefinedType'],
+  IFCFEATUREELEMENT: ['IFCELEMENT'],
+  IFCFEATUREELEMENTSUBTRACTION: ['IFCFEATUREELEMENT'],
+  IFCOPENINGELEMENT: ['IFCFEATUREELEMENTSUBTRACTION', 'PredefinedType'],
+  IFCOPENINGSTANDARDCASE: ['IFCOPENINGELEMENT'],
+  IFCVOIDINGFEATURE: ['IFCFEATUREELEMENTSUBTRACTION', 'PredefinedType'],
+  IFCELEMENTASSEMBLY: ['IFCELEMENT', 'AssemblyPlace', 'PredefinedType'],
+  IFCELEMENTCOMPONENT: ['IFCELEMENT'],
+  IFCDISCRETEACCESSORY: ['IFCELEMENTCOMPONENT', 'PredefinedType'],
+  IFCFASTENER: ['IFCELEMENTCOMPONENT', 'PredefinedType'],
+  IFCMECHANICALFASTENER: ['IFCELEMENTCOMPONENT', 'NominalDiameter', 'NominalLength', 'PredefinedType'],
+  IFCREINFORCINGELEMENT: ['IFCELEMENTCOMPONENT', 'SteelGrade'],
+  IFCREINFORCINGBAR: ['IFCREINFORCINGELEMENT', 'NominalDiameter', 'CrossSectionArea', 'BarLength', 'PredefinedType', 'BarSurface'],
+  IFCREINFORCINGMESH: [
+    'IFCREINFORCINGELEMENT', 'MeshLength', 'MeshWidth', 'LongitudinalBarNominalDiameter', 'TransverseBarNominalDiameter',
+    'LongitudinalBarCrossSectionArea', 'TransverseBarCrossSectionArea', 'LongitudinalBarSpacing', 'TransverseBarSpacing',
+    'PredefinedType',
+  ],
+  IFCTENDON: [
+    'IFCREINFORCINGELEMENT', 'PredefinedType', 'NominalDiameter', 'CrossSectionArea', 'TensionForce', 'PreStress',
+    'FrictionCoefficient', 'AnchorageSlip', 'MinCurvatureRadius',
+  ],
+  IFCTENDONANCHOR: ['IFCREINFORCINGELEMENT', 'PredefinedType'],
+  IFCFURNISHINGELEMENT: ['IFCELEMENT'],
+  IFCFURNITURE: ['IFCFURNISHINGELEMENT', 'PredefinedType'],
+  IFCSYSTEMFURNITUREELEMENT: ['IFCFURNISHINGELEMENT', 'PredefinedType'],
+  IFCDISTRIBUTIONELEMENT: ['IFCELEMENT'],
+  IFCDISTRIBUTIONFLOWELEMENT: ['IFCDISTRIBUTIONELEMENT'],
+  IFCDISTRIBUTIONCONTROLELEMENT: ['IFCDISTRIBUTIONELEMENT'],
+  ...withoutAttributes('IFCDISTRIBUTIONFLOWELEMENT', [
+    'IFCFLOWSEGMENT', 'IFCFLOWFITTING', 'IFCFLOWTERMINAL', 'IFCFLOWCONTROLLER', 'IFCFLOWMOVINGDEVICE',
+    'IFCFLOWSTORAGEDEVICE', 'IFCFLOWTREATMENTDEVICE', 'IFCENERGYCONVERSIONDEVICE', 'IFCDISTRIBUTIONCHAMBERELEMENT',
+  ]),
+  ...withPredefinedType('IFCFLOWSEGMENT', ['IFCDUCTSEGMENT', 'IFCPIPESEGMENT', 'IFCCABLESEGMENT', 'IFCCABLECARRIERSEGMENT']),
+  ...withPredefinedType('IFCFLOWFITTING', ['IFCDUCTFITTING', 'IFCPIPEFITTING', 'IFCCABLEFITTING', 'IFCCABLECARRIERFITTING']),
+  ...withPredefinedType('IFCFLOWTERMINAL', [
+    'IFCAIRTERMINAL', 'IFCLIGHTFIXTURE', 'IFCSANITARYTERMINAL', 'IFCOUTLET', 'IFCLAMP', 'IFCFIRESUPPRESSIONTERMINAL',
+    'IFCSPACEHEATER',
+  ]),
+  ...withPredefinedType('IFCFLOWCONTROLLER', ['IFCVALVE', 'IFCDAMPER', 'IFCSWITCHINGDEVICE']),
+  ...withPredefinedType('IFCFLOWMOVINGDEVICE', ['IFCPUMP', 'IFCFAN']),
+  ...withPredefinedType('IFCFLOWSTORAGEDEVICE', ['IFCTANK']),
+  ...withPredefinedType('IFCENERGYCONVERSIONDEVICE', ['IFCBOILER', 'IFCCHILLER', 'IFCAIRTOAIRHEATRECOVERY', 'IFCUNITARYEQUIPMENT']),
+
+  // Relationships
+  IFCRELATIONSHIP: ['IFCROOT'],
+  IFCRELCONNECTS: ['IFCRELATIONSHIP'],
+  IFCRELDECOMPOSES: ['IFCRELATIONSHIP'],
+  IFCRELDEFINES: ['IFCRELATIONSHIP'],
+  IFCRELASSOCIATES: ['IFCRELATIONSHIP', 'RelatedObjects'],
+  IFCRELASSIGNS: ['IFCRELATIONSHIP', 'RelatedObjects', 'RelatedObjectsType'],
+  IFCRELCONTAINEDINSPATIALSTRUCTURE: ['IFCRELCONNECTS', 'RelatedElements', 'RelatingStructure'],
+  IFCRELREFERENCEDINSPATIALSTRUCTURE: ['IFCRELCONNECTS', 'RelatedElements', 'RelatingStructure'],
+  IFCRELAGGREGATES: ['IFCRELDECOMPOSES', 'RelatingObject', 'RelatedObjects'],
+  IFCRELNESTS: ['IFCRELDECOMPOSES', 'RelatingObject', 'RelatedObjects'],
+  IFCRELVOIDSELEMENT: ['IFCRELDECOMPOSES', 'RelatingBuildingElement', 'RelatedOpeningElement'],
+  IFCRELPROJECTSELEMENT: ['IFCRELDECOMPOSES', 'RelatingElement', 'RelatedFeatureElement'],
+  IFCRELFILLSELEMENT: ['IFCRELCONNECTS', 'RelatingOpeningElement', 'RelatedBuildingElement'],
+  IFCRELCOVERSBLDGELEMENTS: ['IFCRELCONNECTS', 'RelatingBuildingElement', 'RelatedCoverings'],
+  IFCRELCOVERSSPACES: ['IFCRELCONNECTS', 'RelatingSpace', 'RelatedCoverings'],
+  IFCRELCONNECTSELEMENTS: ['IFCRELCONNECTS', 'ConnectionGeometry', 'RelatingElement', 'RelatedElement'],
+  IFCRELCONNECTSWITHREALIZINGELEMENTS: ['IFCRELCONNECTSELEMENTS', 'RealizingElements', 'ConnectionType'],
+  IFCRELDEFINESBYPROPERTIES: ['IFCRELDEFINES', 'RelatedObjects', 'RelatingPropertyDefinition'],
+  IFCRELDEFINESBYTYPE: ['IFCRELDEFINES', 'RelatedObjects', 'RelatingType'],
+  IFCRELASSOCIATESMATERIAL: ['IFCRELASSOCIATES', 'RelatingMaterial'],
+  IFCRELASSOCIATESCLASSIFICATION: ['IFCRELASSOCIATES', 'RelatingClassification'],
+  IFCRELASSIGNSTOGROUP: ['IFCRELASSIGNS', 'RelatingGroup'],
+  IFCRELASSIGNSTOPRODUCT: ['IFCRELASSIGNS', 'RelatingProduct'],
+
+  // Property and quantity sets
+  IFCPROPERTYDEFINITION: ['IFCROOT'],
+  IFCPROPERTYSETDEFINITION: ['IFCPROPERTYDEFINITION'],
+  IFCPROPERTYSET: ['IFCPROPERTYSETDEFINITION', 'HasProperties'],
+  IFCQUANTITYSET: ['IFCPROPERTYSETDEFINITION'],
+  IFCELEMENTQUANTITY: ['IFCQUANTITYSET', 'MethodOfMeasurement', 'Quantities'],
+  IFCPROPERTYABSTRACTION: [''],
+  IFCPROPERTY: ['IFCPROPERTYABSTRACTION', 'Name', 'Description'],
+  IFCSIMPLEPROPERTY: ['IFCPROPERTY'],
+  IFCPROPERTYSINGLEVALUE: ['IFCSIMPLEPROPERTY', 'NominalValue', 'Unit'],
+  IFCPROPERTYENUMERATEDVALUE: ['IFCSIMPLEPROPERTY', 'EnumerationValues', 'EnumerationReference'],
+  IFCPROPERTYBOUNDEDVALUE: ['IFCSIMPLEPROPERTY', 'UpperBoundValue', 'LowerBoundValue', 'Unit', 'SetPointValue'],
+  IFCPROPERTYLISTVALUE: ['IFCSIMPLEPROPERTY', 'ListValues', 'Unit'],
+  IFCPROPERTYTABLEVALUE: [
+    'IFCSIMPLEPROPERTY', 'DefiningValues', 'DefinedValues', 'Expression', 'DefiningUnit', 'DefinedUnit',
+    'CurveInterpolation',
+  ],
+  IFCPROPERTYREFERENCEVALUE: ['IFCSIMPLEPROPERTY', 'UsageName', 'PropertyReference'],
+  IFCCOMPLEXPROPERTY: ['IFCPROPERTY', 'UsageName', 'HasProperties'],
+  IFCPROPERTYENUMERATION: ['IFCPROPERTYABSTRACTION', 'Name', 'EnumerationValues', 'Unit'],
+  IFCPHYSICALQUANTITY: ['', 'Name', 'Description'],
+  IFCPHYSICALSIMPLEQUANTITY: ['IFCPHYSICALQUANTITY', 'Unit'],
+  IFCQUANTITYLENGTH: ['IFCPHYSICALSIMPLEQUANTITY', 'LengthValue', 'Formula'],
+  IFCQUANTITYAREA: ['IFCPHYSICALSIMPLEQUANTITY', 'AreaValue', 'Formula'],
+  IFCQUANTITYVOLUME: ['IFCPHYSICALSIMPLEQUANTITY', 'VolumeValue', 'Formula'],
+  IFCQUANTITYCOUNT: ['IFCPHYSICALSIMPLEQUANTITY', 'CountValue', 'Formula'],
+  IFCQUANTITYWEIGHT: ['IFCPHYSICALSIMPLEQUANTITY', 'WeightValue', 'Formula'],
+  IFCQUANTITYTIME: ['IFCPHYSICALSIMPLEQUANTITY', 'TimeValue', 'Formula'],
+  IFCPHYSICALCOMPLEXQUANTITY: ['IFCPHYSICALQUANTITY', 'HasQuantities', 'Discrimination', 'Quality', 'Usage'],
+
+  // Type objects
+  IFCTYPEOBJECT: ['IFCOBJECTDEFINITION', 'ApplicableOccurrence', 'HasPropertySets'],
+  IFCTYPEPRODUCT: ['IFCTYPEOBJECT', 'RepresentationMaps', 'Tag'],
+  IFCELEMENTTYPE: ['IFCTYPEPRODUCT', 'ElementType'],
+  IFCBUILDINGELEMENTTYPE: ['IFCELEMENTTYPE'],
+  ...withPredefinedType('IFCBUILDINGELEMENTTYPE', [
+    'IFCWALLTYPE', 'IFCSLABTYPE', 'IFCBEAMTYPE', 'IFCCOLUMNTYPE', 'IFCMEMBERTYPE', 'IFCPLATETYPE', 'IFCFOOTINGTYPE',
+    'IFCPILETYPE', 'IFCROOFTYPE', 'IFCSTAIRTYPE', 'IFCSTAIRFLIGHTTYPE', 'IFCRAMPTYPE', 'IFCRAMPFLIGHTTYPE',
+    'IFCRAILINGTYPE', 'IFCCOVERINGTYPE', 'IFCCURTAINWALLTYPE', 'IFCBUILDINGELEMENTPROXYTYPE', 'IFCCHIMNEYTYPE',
+    'IFCSHADINGDEVICETYPE',
+  ]),
+  IFCDOORTYPE: ['IFCBUILDINGELEMENTTYPE', 'PredefinedType', 'OperationType', 'ParameterTakesPrecedence', 'UserDefinedOperationType'],
+  IFCWINDOWTYPE: [
+    'IFCBUILDINGELEMENTTYPE', 'PredefinedType', 'PartitioningType', 'ParameterTakesPrecedence',
+    'UserDefinedPartitioningType',
+  ],
+  IFCELEMENTASSEMBLYTYPE: ['IFCELEMENTTYPE', 'PredefinedType'],
+  IFCFURNISHINGELEMENTTYPE: ['IFCELEMENTTYPE'],
+  IFCFURNITURETYPE: ['IFCFURNISHINGELEMENTTYPE', 'AssemblyPlace', 'PredefinedType'],
+  IFCSPATIALELEMENTTYPE: ['IFCTYPEPRODUCT', 'ElementType'],
+  IFCSPATIALSTRUCTUREELEMENTTYPE: ['IFCSPATIALELEMENTTYPE'],
+  IFCSPACETYPE: ['IFCSPATIALSTRUCTUREELEMENTTYPE', 'PredefinedType', 'LongName'],
+
+  // Materials
+  IFCMATERIALDEFINITION: [''],
+  IFCMATERIAL: ['IFCMATERIALDEFINITION', 'Name', 'Description', 'Category'],
+  IFCMATERIALLAYER: ['IFCMATERIALDEFINITION', 'Material', 'LayerThickness', 'IsVentilated', 'Name', 'Description', 'Category', 'Priority'],
+  IFCMATERIALLAYERWITHOFFSETS: ['IFCMATERIALLAYER', 'OffsetDirection', 'OffsetValues'],
+  IFCMATERIALLAYERSET: ['IFCMATERIALDEFINITION', 'MaterialLayers', 'LayerSetName', 'Description'],
+  IFCMATERIALPROFILE: ['IFCMATERIALDEFINITION', 'Name', 'Description', 'Material', 'Profile', 'Priority', 'Category'],
+  IFCMATERIALPROFILESET: ['IFCMATERIALDEFINITION', 'Name', 'Description', 'MaterialProfiles', 'CompositeProfile'],
+  IFCMATERIALCONSTITUENT: ['IFCMATERIALDEFINITION', 'Name', 'Description', 'Material', 'Fraction', 'Category'],
+  IFCMATERIALCONSTITUENTSET: ['IFCMATERIALDEFINITION', 'Name', 'Description', 'MaterialConstituents'],
+  IFCMATERIALUSAGEDEFINITION: [''],
+  IFCMATERIALLAYERSETUSAGE: [
+    'IFCMATERIALUSAGEDEFINITION', 'ForLayerSet', 'LayerSetDirection', 'DirectionSense', 'OffsetFromReferenceLine',
+    'ReferenceExtent',
+  ],
+  IFCMATERIALPROFILESETUSAGE: ['IFCMATERIALUSAGEDEFINITION', 'ForProfileSet', 'CardinalPoint', 'ReferenceExtent'],
+  IFCMATERIALPROFILESETUSAGETAPERING: ['IFCMATERIALPROFILESETUSAGE', 'ForProfileEndSet', 'CardinalEndPoint'],
+  IFCMATERIALLIST: ['', 'Materials'],
+
+  // Classification
+  IFCEXTERNALINFORMATION: [''],
+  IFCEXTERNALREFERENCE: ['', 'Location', 'Identification', 'Name'],
+  IFCCLASSIFICATIONREFERENCE: ['IFCEXTERNALREFERENCE', 'ReferencedSource', 'Description', 'Sort'],
+  IFCCLASSIFICATION: [
+    'IFCEXTERNALINFORMATION', 'Source', 'Edition', 'EditionDate', 'Name', 'Description', 'Location', 'ReferenceTokens',
+  ],
+
+  // Units
+  IFCUNITASSIGNMENT: ['', 'Units'],
+  IFCNAMEDUNIT: ['', 'Dimensions', 'UnitType'],
+  IFCSIUNIT: ['IFCNAMEDUNIT', 'Prefix', 'Name'],
+  IFCCONVERSIONBASEDUNIT: ['IFCNAMEDUNIT', 'Name', 'ConversionFactor'],
+  IFCCONVERSIONBASEDUNITWITHOFFSET: ['IFCCONVERSIONBASEDUNIT', 'ConversionOffset'],
+  IFCCONTEXTDEPENDENTUNIT: ['IFCNAMEDUNIT', 'Name'],
+  IFCDERIVEDUNIT: ['', 'Elements', 'UnitType', 'UserDefinedType'],
+  IFCDERIVEDUNITELEMENT: ['', 'Unit', 'Exponent'],
+  IFCMEASUREWITHUNIT: ['', 'ValueComponent', 'UnitComponent'],
+  IFCMONETARYUNIT: ['', 'Currency'],
+  IFCDIMENSIONALEXPONENTS: [
+    '', 'LengthExponent', 'MassExponent', 'TimeExponent', 'ElectricCurrentExponent',
+    'ThermodynamicTemperatureExponent', 'AmountOfSubstanceExponent', 'LuminousIntensityExponent',
+  ],
+};
+
+// IFC2X3 differs from IFC4 mostly in element attributes and the lack of PredefinedType
+const IFC2X3: EntityTable = {
+  ...IFC4,
+  IFCPROJECT: ['IFCOBJECT', 'LongName', 'Phase', 'RepresentationContexts', 'UnitsInContext'],
+  IFCSPATIALSTRUCTUREELEMENT: ['IFCPRODUCT', 'LongName', 'CompositionType'],
+  IFCSPACE: ['IFCSPATIALSTRUCTUREELEMENT', 'InteriorOrExteriorSpace', 'ElevationWithFlooring'],
+  IFCZONE: ['IFCGROUP'],
+  ...withoutAttributes('IFCBUILDINGELEMENT', [
+    'IFCWALL', 'IFCBEAM', 'IFCCOLUMN', 'IFCMEMBER', 'IFCPLATE', 'IFCCURTAINWALL', 'IFCRAMPFLIGHT',
+  ]),
+  IFCROOF: ['IFCBUILDINGELEMENT', 'ShapeType'],
+  IFCSTAIR: ['IFCBUILDINGELEMENT', 'ShapeType'],
+  IFCRAMP: ['IFCBUILDINGELEMENT', 'ShapeType'],
+  IFCBUILDINGELEMENTPROXY: ['IFCBUILDINGELEMENT', 'CompositionType'],
+  IFCDOOR: ['IFCBUILDINGELEMENT', 'OverallHeight', 'OverallWidth'],
+  IFCWINDOW: ['IFCBUILDINGELEMENT', 'OverallHeight', 'OverallWidth'],
+  IFCSTAIRFLIGHT: ['IFCBUILDINGELEMENT', 'NumberOfRiser', 'NumberOfTreads', 'RiserHeight', 'TreadLength'],
+  IFCOPENINGELEMENT: ['IFCFEATUREELEMENTSUBTRACTION'],
+  IFCFASTENER: ['IFCELEMENTCOMPONENT'],
+  IFCMECHANICALFASTENER: ['IFCFASTENER', 'NominalDiameter', 'NominalLength'],
+  IFCDISCRETEACCESSORY: ['IFCELEMENTCOMPONENT'],
+  IFCREINFORCINGBAR: ['IFCREINFORCINGELEMENT', 'NominalDiameter', 'CrossSectionArea', 'BarLength', 'BarRole', 'BarSurface'],
+  IFCREINFORCINGMESH: [
+    'IFCREINFORCINGELEMENT', 'MeshLength', 'MeshWidth', 'LongitudinalBarNominalDiameter', 'TransverseBarNominalDiameter',
+    'LongitudinalBarCrossSectionArea', 'TransverseBarCrossSectionArea', 'LongitudinalBarSpacing', 'TransverseBarSpacing',
+  ],
+  IFCFURNITURE: ['IFCFURNISHINGELEMENT'],
+  IFCRELVOIDSELEMENT: ['IFCRELCONNECTS', 'RelatingBuildingElement', 'RelatedOpeningElement'],
+  IFCRELDEFINES: ['IFCRELATIONSHIP', 'RelatedObjects'],
+  IFCRELDEFINESBYPROPERTIES: ['IFCRELDEFINES', 'RelatingPropertyDefinition'],
+  IFCRELDEFINESBYTYPE: ['IFCRELDEFINES', 'RelatingType'],
+  IFCELEMENTQUANTITY: ['IFCPROPERTYSETDEFINITION', 'MethodOfMeasurement', 'Quantities'],
+  IFCPROPERTY: ['', 'Name', 'Description'],
+  IFCPROPERTYBOUNDEDVALUE: ['IFCSIMPLEPROPERTY', 'UpperBoundValue', 'LowerBoundValue', 'Unit'],
+  IFCPROPERTYTABLEVALUE: ['IFCSIMPLEPROPERTY', 'DefiningValues', 'DefinedValues', 'Expression', 'DefiningUnit', 'DefinedUnit'],
+  IFCPROPERTYENUMERATION: ['', 'Name', 'EnumerationValues', 'Unit'],
+  IFCQUANTITYLENGTH: ['IFCPHYSICALSIMPLEQUANTITY', 'LengthValue'],
+  IFCQUANTITYAREA: ['IFCPHYSICALSIMPLEQUANTITY', 'AreaValue'],
+  IFCQUANTITYVOLUME: ['IFCPHYSICALSIMPLEQUANTITY', 'VolumeValue'],
+  IFCQUANTITYCOUNT: ['IFCPHYSICALSIMPLEQUANTITY', 'CountValue'],
+  IFCQUANTITYWEIGHT: ['IFCPHYSICALSIMPLEQUANTITY', 'WeightValue'],
+  IFCQUANTITYTIME: ['IFCPHYSICALSIMPLEQUANTITY', 'TimeValue'],
+  IFCDOORSTYLE: ['IFCTYPEPRODUCT', 'OperationType', 'ConstructionType', 'ParameterTakesPrecedence', 'Sizeable'],
+  IFCWINDOWSTYLE: ['IFCTYPEPRODUCT', 'ConstructionType', 'OperationType', 'ParameterTakesPrecedence', 'Sizeable'],
+  IFCFURNITURETYPE: ['IFCFURNISHINGELEMENTTYPE', 'AssemblyPlace'],
+  IFCSPACETYPE: ['IFCSPATIALSTRUCTUREELEMENTTYPE', 'PredefinedType'],
+  IFCSPATIALSTRUCTUREELEMENTTYPE: ['IFCELEMENTTYPE'],
+  IFCMATERIAL: ['', 'Name'],
+  IFCMATERIALLAYER: ['', 'Material', 'LayerThickness', 'IsVentilated'],
+  IFCMATERIALLAYERSET: ['', 'MaterialLayers', 'LayerSetName'],
+  IFCMATERIALLAYERSETUSAGE: ['', 'ForLayerSet', 'LayerSetDirection', 'DirectionSense', 'OffsetFromReferenceLine'],
+  IFCEXTERNALREFERENCE: ['', 'Location', 'ItemReference', 'Name'],
+  IFCCLASSIFICATIONREFERENCE: ['IFCEXTERNALREFERENCE', 'ReferencedSource'],
+  IFCCLASSIFICATION: ['', 'Source', 'Edition', 'EditionDate', 'Name'],
+};
+
+// IFC4X3 renames the building element branch and adds infrastructure elements
+const IFC4X3: EntityTable = {
+  ...IFC4,
+  IFCBUILTELEMENT: ['IFCELEMENT'],
+  IFCBUILDINGELEMENT: ['IFCBUILTELEMENT'],
+  IFCBUILTELEMENTTYPE: ['IFCELEMENTTYPE'],
+  IFCBUILDINGELEMENTTYPE: ['IFCBUILTELEMENTTYPE'],
+  IFCFACILITY: ['IFCSPATIALSTRUCTUREELEMENT'],
+  IFCBUILDING: ['IFCFACILITY', 'ElevationOfRefHeight', 'ElevationOfTerrain', 'BuildingAddress'],
+  ...withPredefinedType('IFCFACILITY', ['IFCBRIDGE', 'IFCROAD', 'IFCRAILWAY', 'IFCMARINEFACILITY']),
+  IFCFACILITYPART: ['IFCSPATIALSTRUCTUREELEMENT', 'UsageType'],
+  ...withPredefinedType('IFCBUILTELEMENT', [
+    'IFCWALL', 'IFCSLAB', 'IFCBEAM', 'IFCCOLUMN', 'IFCMEMBER', 'IFCPLATE', 'IFCFOOTING', 'IFCROOF',
+    'IFCSTAIR', 'IFCRAMP', 'IFCRAMPFLIGHT', 'IFCRAILING', 'IFCCOVERING', 'IFCCURTAINWALL',
+    'IFCBUILDINGELEMENTPROXY', 'IFCCHIMNEY', 'IFCSHADINGDEVICE', 'IFCBEARING', 'IFCCOURSE', 'IFCKERB',
+    'IFCPAVEMENT', 'IFCRAIL', 'IFCTRACKELEMENT', 'IFCEARTHWORKSELEMENT',
+  ]),
+  IFCPILE: ['IFCBUILTELEMENT', 'PredefinedType', 'ConstructionType'],
+  IFCDOOR: ['IFCBUILTELEMENT', 'OverallHeight', 'OverallWidth', 'PredefinedType', 'OperationType', 'UserDefinedOperationType'],
+  IFCWINDOW: ['IFCBUILTELEMENT', 'OverallHeight', 'OverallWidth', 'PredefinedType', 'PartitioningType', 'UserDefinedPartitioningType'],
+  IFCSTAIRFLIGHT: ['IFCBUILTELEMENT', 'NumberOfRisers', 'NumberOfTreads', 'RiserHeight', 'TreadLength', 'PredefinedType'],
+  IFCEARTHWORKSFILL: ['IFCEARTHWORKSELEMENT'],
+  IFCCLASSIFICATION: [
+    'IFCEXTERNALINFORMATION', 'Source', 'Edition', 'EditionDate', 'Name', 'Description', 'Specification',
+    'ReferenceTokens',
+  ],
+};
+
+const schemaTables: Record<IFCSchemaName, EntityTable> = { IFC2X3, IFC4, IFC4X3 };
+
+// Maps FILE_SCHEMA identifiers such as 'IFC2X3', 'IFC4', 'IFC4X3_ADD2' onto the tables above
+export const detectSchema = (identifiers: string[]): IFCSchemaName => {
+  const id = (identifiers[0] || '').toUpperCase();
+  if (id.startsWith('IFC2X')) return 'IFC2X3';
+  if (id.startsWith('IFC4X3')) return 'IFC4X3';
+  return 'IFC4';
+};
+
+const attributeCache: Record<IFCSchemaName, Map<string, string[] | null>> = {
+  IFC2X3: new Map(),
+  IFC4: new Map(),
+  IFC4X3: new Map(),
+};
+
+// Full, ordered attribute names of an entity type, or null when the type is not described
+export const getAttributeNames = (schema: IFCSchemaName, type: string): string[] | null => {
+  const cache = attributeCache[schema];
+  if (cache.has(type)) return cache.get(type)!;
+  const def = schemaTables[schema][type];
+  let names: string[] | null = null;
+  if (def) {
+    const [parent, ...own] = def;
+    const inherited = parent ? getAttributeNames(schema, parent) : [];
+    names = inherited ? [...inherited, ...own] : null;
+  }
+  cache.set(type, names);
+  return names;
+};
+
+export const isSubtypeOf = (schema: IFCSchemaName, type: string, supertype: string): boolean => {
+  const table = schemaTables[schema];
+  let current: string | undefined = type;
+  while (current) {
+    if (current === supertype) return true;
+    current = table[current]?.[0];
+  }
+  return false;
+};
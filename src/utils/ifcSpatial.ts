@@ -0,0 +1,144 @@
+// Where an element sits in the model: its spatial structure, zones, the
+// assemblies it belongs to and what is attached to it
+import { IFCEntityIndex, getEntity, getReferencedEntities, getReferencingEntities } from './ifcIndex';
+import type { IFCEntity } from './ifcParser';
+import { IFCSchemaName, isSubtypeOf } from './ifcSchema';
+import { IFCUnitSystem, formatQuantity } from './ifcUnits';
+import { stepNumber, stepRef, stepString } from './stepParser';
+
+export const entityName = (entity: IFCEntity) =>
+  stepString(entity.attributes.Name) || stepString(entity.attributes.LongName) || `${entity.type}_${entity.id}`;
+
+// The entity one step up the spatial tree: containing structure, aggregating
+// whole, or for openings and fillings the element they belong to
+export const spatialParentOf = (index: IFCEntityIndex, id: string): string | null => {
+  const [contained] = getReferencingEntities(index, id, 'IFCRELCONTAINEDINSPATIALSTRUCTURE', 'RelatedElements');
+  if (contained) return stepRef(contained.attributes.RelatingStructure);
+  const [aggregated] = getReferencingEntities(index, id, 'IFCRELAGGREGATES', 'RelatedObjects');
+  if (aggregated) return stepRef(aggregated.attributes.RelatingObject);
+  const [voids] = getReferencingEntities(index, id, 'IFCRELVOIDSELEMENT', 'RelatedOpeningElement');
+  if (voids) return stepRef(voids.attributes.RelatingBuildingElement);
+  const [fills] = getReferencingEntities(index, id, 'IFCRELFILLSELEMENT', 'RelatedBuildingElement');
+  if (fills) return stepRef(fills.attributes.RelatingOpeningElement);
+  return null;
+};
+
+// Every entity up the spatial tree, nearest first
+export const spatialAncestors = (index: IFCEntityIndex, id: string): IFCEntity[] => {
+  const ancestors: IFCEntity[] = [];
+  const visited = new Set<string>([id]);
+  let current = spatialParentOf(index, id);
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    const entity = getEntity(index, current);
+    if (!entity) break;
+    ancestors.push(entity);
+    current = spatialParentOf(index, current);
+  }
+  return ancestors;
+};
+
+export const findStorey = (index: IFCEntityIndex, id: string): IFCEntity | undefined => {
+  const self = getEntity(index, id);
+  if (self?.type === 'IFCBUILDINGSTOREY') return self;
+  return spatialAncestors(index, id).find(entity => entity.type === 'IFCBUILDINGSTOREY');
+};
+
+const spatialLabels: Record<string, string> = {
+  IFCSITE: 'Site',
+  IFCBUILDING: 'Building',
+  IFCBUILDINGSTOREY: 'Storey',
+  IFCSPACE: 'Space',
+  IFCZONE: 'Zone',
+};
+
+const spatialLabel = (type: string) => spatialLabels[type] ?? type.replace(/^IFC/, '').toLowerCase().replace(/^./, c => c.toUpperCase());
+
+// Zones grouping the element or any of the spaces it sits in
+const zonesOf = (index: IFCEntityIndex, members: IFCEntity[]): IFCEntity[] => {
+  const zones = new Map<string, IFCEntity>();
+  for (const member of members) {
+    for (const rel of getReferencingEntities(index, member.id, 'IFCRELASSIGNSTOGROUP', 'RelatedObjects')) {
+      const [group] = getReferencedEntities(index, rel.id, 'RelatingGroup');
+      if (group?.type === 'IFCZONE') zones.set(group.id, group);
+    }
+  }
+  return Array.from(zones.values());
+};
+
+// 'Site: S; Building: B; Storey: Level 1; Zone: Fire zone A', outermost first
+export const formatSpatialStructure = (index: IFCEntityIndex, schema: IFCSchemaName, id: string): string => {
+  const self = getEntity(index, id);
+  const structure = spatialAncestors(index, id)
+    .filter(entity => isSubtypeOf(schema, entity.type, 'IFCSPATIALSTRUCTUREELEMENT'))
+    .reverse();
+  const zones = zonesOf(index, self ? [self, ...structure] : structure);
+  return [...structure, ...zones].map(entity => `${spatialLabel(entity.type)}: ${entityName(entity)}`).join('; ');
+};
+
+// Element assemblies the element is part of, outermost first
+export const parentAssemblies = (index: IFCEntityIndex, schema: IFCSchemaName, id: string): IFCEntity[] => {
+  const assemblies: IFCEntity[] = [];
+  const visited = new Set<string>([id]);
+  let current: string | null = id;
+  while (current) {
+    const [aggregated] = getReferencingEntities(index, current, 'IFCRELAGGREGATES', 'RelatedObjects');
+    const parent = getEntity(index, aggregated ? stepRef(aggregated.attributes.RelatingObject) : null);
+    if (!parent || visited.has(parent.id) || !isSubtypeOf(schema, parent.type, 'IFCELEMENTASSEMBLY')) break;
+    visited.add(parent.id);
+    assemblies.unshift(parent);
+    current = parent.id;
+  }
+  return assemblies;
+};
+
+// Reinforcement of a host: its parts (directly or through nested assemblies)
+// and products assigned to it (IfcRelAssignsToProduct)
+export const reinforcementOf = (index: IFCEntityIndex, schema: IFCSchemaName, id: string): IFCEntity[] => {
+  const found = new Map<string, IFCEntity>();
+  const visited = new Set<string>();
+  const visit = (hostId: string) => {
+    if (visited.has(hostId)) return;
+    visited.add(hostId);
+    const children = [
+      ...getReferencingEntities(index, hostId, 'IFCRELAGGREGATES', 'RelatingObject'),
+      ...getReferencingEntities(index, hostId, 'IFCRELASSIGNSTOPRODUCT', 'RelatingProduct'),
+    ].flatMap(rel => getReferencedEntities(index, rel.id, 'RelatedObjects'));
+    for (const child of children) {
+      if (isSubtypeOf(schema, child.type, 'IFCREINFORCINGELEMENT')) found.set(child.id, child);
+      else if (isSubtypeOf(schema, child.type, 'IFCELEMENTASSEMBLY')) visit(child.id);
+    }
+  };
+  visit(id);
+  return Array.from(found.values());
+};
+
+// Coverings attached to a building element or a space
+export const coveringsOf = (index: IFCEntityIndex, id: string): IFCEntity[] =>
+  [
+    ...getReferencingEntities(index, id, 'IFCRELCOVERSBLDGELEMENTS', 'RelatingBuildingElement'),
+    ...getReferencingEntities(index, id, 'IFCRELCOVERSSPACES', 'RelatingSpace'),
+  ].flatMap(rel => getReferencedEntities(index, rel.id, 'RelatedCoverings'));
+
+// 'REINFORCINGBAR × 12 (Ø 0.012 m); REINFORCINGMESH × 2', grouped by type and nominal diameter
+export const formatReinforcement = (
+  reinforcement: IFCEntity[],
+  lengthScale = 1,
+  system: IFCUnitSystem = 'metric'
+): string => {
+  const groups = new Map<string, { type: string; diameter: number | null; count: number }>();
+  for (const bar of reinforcement) {
+    const diameter = stepNumber(bar.attributes.NominalDiameter);
+    const key = `${bar.type}|${diameter}`;
+    const group = groups.get(key);
+    if (group) group.count++;
+    else groups.set(key, { type: bar.type.replace('IFC', ''), diameter, count: 1 });
+  }
+  return Array.from(groups.values())
+    .map(({ type, diameter, count }) =>
+      diameter !== null
+        ? `${type} × ${count} (Ø ${formatQuantity(diameter * lengthScale, 'length', system, 3)})`
+        : `${type} × ${count}`
+    )
+    .join('; ');
+};
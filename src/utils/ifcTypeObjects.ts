@@ -0,0 +1,63 @@
+// Type objects (IfcWallType, IfcBeamType, ...) and what occurrences inherit from them through IfcRelDefinesByType
+import { IFCEntityIndex, getEntitiesOfType, getReferencedEntities } from './ifcIndex';
+import type { IFCEntity } from './ifcParser';
+import { IFCPropertySets, resolvePropertySet } from './ifcProperties';
+import { stepEnum, stepString } from './stepParser';
+
+export interface IFCTypeObjectRef {
+  id: string;
+  type: string;
+  name: string;
+}
+
+// PredefinedType, with USERDEFINED replaced by the user's label and NOTDEFINED treated as unset
+const readPredefinedType = ({ attributes }: IFCEntity): string | undefined => {
+  const value = stepEnum(attributes.PredefinedType);
+  if (!value || value === 'NOTDEFINED') return undefined;
+  if (value === 'USERDEFINED') return stepString(attributes.ObjectType) ?? stepString(attributes.ElementType) ?? value;
+  return value;
+};
+
+// Sets listed in the type's HasPropertySets, plus any assigned to it by relationship
+const typePropertySets = (index: IFCEntityIndex, type: IFCEntity): IFCPropertySets => {
+  const psets: IFCPropertySets = { ...type.psets };
+  for (const definition of getReferencedEntities(index, type.id, 'HasPropertySets')) {
+    const properties = resolvePropertySet(index, definition.id);
+    if (!properties) continue;
+    const name = stepString(definition.attributes.Name) || `PropertySet_${definition.id}`;
+    psets[name] = psets[name] ? { ...properties, ...psets[name] } : properties;
+  }
+  return psets;
+};
+
+// Links every typed occurrence to its type object and merges in the type's
+// property sets, material, classifications and predefined type. Values on the
+// occurrence win. Runs after the other attach* passes.
+export const attachTypeObjects = (index: IFCEntityIndex) => {
+  for (const entity of index.byId.values()) {
+    const predefinedType = readPredefinedType(entity);
+    if (predefinedType) entity.predefinedType = predefinedType;
+  }
+  for (const rel of getEntitiesOfType(index, 'IFCRELDEFINESBYTYPE')) {
+    const [type] = getReferencedEntities(index, rel.id, 'RelatingType');
+    if (!type) continue;
+    const ref: IFCTypeObjectRef = {
+      id: type.id,
+      type: type.type,
+      name: stepString(type.attributes.Name) || `${type.type}_${type.id}`,
+    };
+    const psets = typePropertySets(index, type);
+    if (Object.keys(psets).length) type.psets = psets;
+    const predefinedType = readPredefinedType(type);
+    for (const target of getReferencedEntities(index, rel.id, 'RelatedObjects')) {
+      target.typeObject = ref;
+      for (const [name, properties] of Object.entries(psets)) {
+        target.psets ??= {};
+        target.psets[name] = target.psets[name] ? { ...properties, ...target.psets[name] } : properties;
+      }
+      target.material ??= type.material;
+      target.classifications ??= type.classifications;
+      target.predefinedType ??= predefinedType;
+    }
+  }
+};
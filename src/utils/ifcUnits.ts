@@ -0,0 +1,125 @@
+// Project units (IfcProject.UnitsInContext) and conversion of quantities to
+// canonical SI: metre, square metre, cubic metre, kilogram and second
+import { IFCEntityIndex, getEntitiesOfType, getEntity, getReferencedEntities } from './ifcIndex';
+import type { IFCQuantityKind } from './ifcQuantities';
+import { stepEnum, stepNumber } from './stepParser';
+
+// Factor from the file's unit to the canonical unit, per kind of quantity
+export type IFCProjectUnits = Record<IFCQuantityKind, number>;
+
+export type IFCUnitSystem = 'metric' | 'imperial';
+
+// Kinds shown in the UI and exports
+export type IFCDisplayKind = 'length' | 'area' | 'volume' | 'weight';
+
+// Files without a unit assignment are read as SI
+export const createDefaultUnits = (): IFCProjectUnits => ({
+  length: 1,
+  area: 1,
+  volume: 1,
+  count: 1,
+  weight: 1,
+  time: 1,
+});
+
+const siPrefixes: Record<string, number> = {
+  EXA: 1e18,
+  PETA: 1e15,
+  TERA: 1e12,
+  GIGA: 1e9,
+  MEGA: 1e6,
+  KILO: 1e3,
+  HECTO: 1e2,
+  DECA: 1e1,
+  DECI: 1e-1,
+  CENTI: 1e-2,
+  MILLI: 1e-3,
+  MICRO: 1e-6,
+  NANO: 1e-9,
+  PICO: 1e-12,
+  FEMTO: 1e-15,
+  ATTO: 1e-18,
+};
+
+// Exponent the prefix is raised to, and the factor of the unprefixed unit
+// (the canonical mass unit is the kilogram, not the gram)
+const siNames: Record<string, [number, number]> = {
+  METRE: [1, 1],
+  SQUARE_METRE: [2, 1],
+  CUBIC_METRE: [3, 1],
+  GRAM: [1, 1e-3],
+  SECOND: [1, 1],
+};
+
+const unitKinds: Record<string, IFCQuantityKind> = {
+  LENGTHUNIT: 'length',
+  AREAUNIT: 'area',
+  VOLUMEUNIT: 'volume',
+  MASSUNIT: 'weight',
+  TIMEUNIT: 'time',
+};
+
+// Factor from one unit entity to the canonical SI unit of its kind. Conversion
+// based units (foot, inch, square foot, ...) resolve through their
+// IfcMeasureWithUnit down to an SI unit.
+export const unitScale = (index: IFCEntityIndex, id: string, depth = 0): number => {
+  const unit = getEntity(index, id);
+  if (!unit || depth > 8) return 1;
+  switch (unit.type) {
+    case 'IFCSIUNIT': {
+      const [exponent, base] = siNames[stepEnum(unit.attributes.Name) ?? ''] ?? [1, 1];
+      const prefix = siPrefixes[stepEnum(unit.attributes.Prefix) ?? ''] ?? 1;
+      return Math.pow(prefix, exponent) * base;
+    }
+    case 'IFCCONVERSIONBASEDUNIT':
+    case 'IFCCONVERSIONBASEDUNITWITHOFFSET': {
+      const [measure] = getReferencedEntities(index, id, 'ConversionFactor');
+      if (!measure) return 1;
+      const value = stepNumber(measure.attributes.ValueComponent) ?? 1;
+      const [component] = getReferencedEntities(index, measure.id, 'UnitComponent');
+      return value * (component ? unitScale(index, component.id, depth + 1) : 1);
+    }
+    default:
+      return 1;
+  }
+};
+
+// Scales of the project's default units; kinds the project doesn't assign stay SI
+export const readProjectUnits = (index: IFCEntityIndex): IFCProjectUnits => {
+  const units = createDefaultUnits();
+  const [project] = getEntitiesOfType(index, 'IFCPROJECT');
+  if (!project) return units;
+  for (const assignment of getReferencedEntities(index, project.id, 'UnitsInContext')) {
+    for (const unit of getReferencedEntities(index, assignment.id, 'Units')) {
+      const kind = unitKinds[stepEnum(unit.attributes.UnitType) ?? ''];
+      if (kind) units[kind] = unitScale(index, unit.id);
+    }
+  }
+  return units;
+};
+
+// Canonical unit to display unit
+const displayUnits: Record<IFCUnitSystem, Record<IFCDisplayKind, { label: string; factor: number }>> = {
+  metric: {
+    length: { label: 'm', factor: 1 },
+    area: { label: 'm²', factor: 1 },
+    volume: { label: 'm³', factor: 1 },
+    weight: { label: 'kg', factor: 1 },
+  },
+  imperial: {
+    length: { label: 'ft', factor: 1 / 0.3048 },
+    area: { label: 'ft²', factor: 1 / 0.09290304 },
+    volume: { label: 'ft³', factor: 1 / 0.028316846592 },
+    weight: { label: 'lb', factor: 1 / 0.45359237 },
+  },
+};
+
+export const toDisplayUnit = (value: number, kind: IFCDisplayKind, system: IFCUnitSystem): number =>
+  value * displayUnits[system][kind].factor;
+
+export const displayUnitLabel = (kind: IFCDisplayKind, system: IFCUnitSystem): string =>
+  displayUnits[system][kind].label;
+
+// '12.5 m²' / '134.6 ft²'
+export const formatQuantity = (value: number, kind: IFCDisplayKind, system: IFCUnitSystem, digits = 1): string =>
+  `${toDisplayUnit(value, kind, system).toFixed(digits)} ${displayUnitLabel(kind, system)}`;
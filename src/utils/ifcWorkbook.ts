@@ -0,0 +1,156 @@
+// Excel workbook export: one sheet per view of the model, with numbers typed
+// as numbers, units in the headers, frozen header rows and autofilters.
+import type { WorkSheet } from 'xlsx';
+import type { IFCModel, IFCQuantity } from './ifcParser3D';
+import type { IFCExportMetadata } from './ifcParser';
+import { formatClassifications } from './ifcClassifications';
+import { IFCDisplayKind, IFCUnitSystem, displayUnitLabel, toDisplayUnit } from './ifcUnits';
+import { PivotLayout, buildPivotData, pivotFields } from './ifcPivot';
+
+type SheetCell = string | number | null;
+
+export interface WorkbookOptions {
+  unitSystem: IFCUnitSystem;
+  pivotLayout: PivotLayout;
+  metadata: IFCExportMetadata;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Column widths from the longest value, capped so long texts don't push everything off screen
+const columnWidths = (rows: SheetCell[][]) =>
+  rows[0].map((_, col) => ({
+    wch: Math.min(60, Math.max(8, ...rows.map(row => String(row[col] ?? '').length + 2))),
+  }));
+
+const quantityHeaders = (unitSystem: IFCUnitSystem) => {
+  const unit = (kind: IFCDisplayKind) => displayUnitLabel(kind, unitSystem);
+  return [`Length (${unit('length')})`, `Area (${unit('area')})`, `Volume (${unit('volume')})`, `Weight (${unit('weight')})`];
+};
+
+// Totals as QuantityPanel shows them: missing and zero totals stay empty
+const quantityRows = (quantities: Record<string, IFCQuantity>, label: string, unitSystem: IFCUnitSystem): SheetCell[][] => {
+  const display = (value: number | undefined, kind: IFCDisplayKind) =>
+    value ? toDisplayUnit(value, kind, unitSystem) : null;
+  return [
+    [label, 'Count', 'Computed', ...quantityHeaders(unitSystem)],
+    ...Object.entries(quantities).map(([key, q]) => [
+      key,
+      q.count,
+      q.computedCount,
+      display(q.totalLength, 'length'),
+      display(q.totalArea, 'area'),
+      display(q.totalVolume, 'volume'),
+      display(q.totalWeight, 'weight'),
+    ]),
+  ];
+};
+
+const elementRows = (model: IFCModel, unitSystem: IFCUnitSystem): SheetCell[][] => {
+  const display = (value: number | undefined, kind: IFCDisplayKind) =>
+    value !== undefined ? toDisplayUnit(value, kind, unitSystem) : null;
+  return [
+    [
+      'Id', 'Name', 'IfcElementType', 'TypeName', 'PredefinedType', 'Level', 'Material', 'Classification',
+      ...quantityHeaders(unitSystem), 'AreaSource', 'VolumeSource',
+    ],
+    ...model.elements.map(({ id, name, type, typeName, predefinedType, level, materialLabel, classifications, properties, quantitySources }) => [
+      id,
+      name,
+      type,
+      typeName,
+      predefinedType ?? null,
+      level ?? null,
+      materialLabel,
+      formatClassifications(classifications),
+      display(properties.length, 'length'),
+      display(properties.area, 'area'),
+      display(properties.volume, 'volume'),
+      display(properties.weight, 'weight'),
+      // Empty when the value is missing or a placeholder
+      quantitySources.area ?? null,
+      quantitySources.volume ?? null,
+    ]),
+  ];
+};
+
+// The pivot table's current layout: one row per row and column value, a
+// subtotal after each row value and a grand total
+const pivotRows = (model: IFCModel, layout: PivotLayout, unitSystem: IFCUnitSystem): SheetCell[][] => {
+  const fields = pivotFields(model.elements);
+  const label = (field: string) => fields.find(f => f.value === field)?.label ?? field;
+  const data = buildPivotData(model.elements, fields, layout);
+  const area = (value = 0) => toDisplayUnit(value, 'area', unitSystem);
+  const volume = (value = 0) => toDisplayUnit(value, 'volume', unitSystem);
+  const rows: SheetCell[][] = [[
+    label(layout.rowField),
+    label(layout.columnField),
+    'Count',
+    `Area (${displayUnitLabel('area', unitSystem)})`,
+    `Volume (${displayUnitLabel('volume', unitSystem)})`,
+  ]];
+  const counted = new Set<string>();
+  let totalArea = 0;
+  let totalVolume = 0;
+  for (const [rowKey, row] of Object.entries(data)) {
+    for (const [colKey, col] of Object.entries(row.children ?? {})) {
+      rows.push([rowKey, colKey, col.count, area(col.totalArea), volume(col.totalVolume)]);
+    }
+    rows.push([`${rowKey} subtotal`, null, row.count, area(row.totalArea), volume(row.totalVolume)]);
+    row.elements.forEach(element => counted.add(element.id));
+    totalArea += row.totalArea ?? 0;
+    totalVolume += row.totalVolume ?? 0;
+  }
+  rows.push(['Grand total', null, counted.size, area(totalArea), volume(totalVolume)]);
+  return rows;
+};
+
+const metadataRows = (metadata: IFCExportMetadata, unitSystem: IFCUnitSystem): SheetCell[][] => [
+  ['Field', 'Value'],
+  ['Source file', metadata.sourceFile],
+  ['Exported at', metadata.exportedAt],
+  ['Schema', metadata.schema],
+  ['Originating system', metadata.originatingSystem],
+  ['Preprocessor version', metadata.preprocessorVersion],
+  ['File timestamp', metadata.fileTimeStamp],
+  ['Authors', metadata.authors.join('; ')],
+  ['Organizations', metadata.organizations.join('; ')],
+  ['Description', metadata.description.join('; ')],
+  ['Unit system', unitSystem],
+];
+
+const FROZEN_HEADER_VIEW =
+  '<sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView>';
+
+export const exportWorkbook = async (model: IFCModel, { unitSystem, pivotLayout, metadata }: WorkbookOptions): Promise<Blob> => {
+  // Loaded on first export only: the library is large and most sessions never use it
+  const XLSX = await import('xlsx');
+  const sheets: [string, SheetCell[][], boolean][] = [
+    ['Elements', elementRows(model, unitSystem), true],
+    ['By Type', quantityRows(model.quantities.byType, 'Type', unitSystem), true],
+    ['By Level', quantityRows(model.quantities.byLevel, 'Level', unitSystem), true],
+    ['By Layer', quantityRows(model.quantities.byLayer, 'Material layer', unitSystem), true],
+    ['Pivot', pivotRows(model, pivotLayout, unitSystem), true],
+    ['Metadata', metadataRows(metadata, unitSystem), false],
+  ];
+  const workbook = XLSX.utils.book_new();
+  for (const [name, rows, filtered] of sheets) {
+    const sheet: WorkSheet = XLSX.utils.aoa_to_sheet(rows);
+    sheet['!cols'] = columnWidths(rows);
+    if (filtered && sheet['!ref']) sheet['!autofilter'] = { ref: sheet['!ref'] };
+    XLSX.utils.book_append_sheet(workbook, sheet, name);
+  }
+  const data: ArrayBuffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx', compression: true });
+
+  // The community build writes no frozen panes; add them to each sheet's XML in the package
+  const zip = XLSX.CFB.read(new Uint8Array(data), { type: 'array' });
+  sheets.forEach((_, i) => {
+    const path = `/xl/worksheets/sheet${i + 1}.xml`;
+    const entry = XLSX.CFB.find(zip, path);
+    if (!entry) return;
+    const xml = new TextDecoder().decode(entry.content).replace('<sheetView workbookViewId="0"/>', FROZEN_HEADER_VIEW);
+    XLSX.CFB.utils.cfb_add(zip, path, new TextEncoder().encode(xml));
+  });
+  const packaged: number[] | Uint8Array = XLSX.CFB.write(zip, { type: 'array', fileType: 'zip', compression: true });
+  return new Blob([new Uint8Array(packaged)], { type: XLSX_MIME_TYPE });
+};
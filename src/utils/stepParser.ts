@@ -0,0 +1,482 @@
+// ISO 10303-21 (STEP physical file) lexer and parser.
+// Produces a typed value tree for every statement so that callers never have to
+// guess where a parameter starts or ends.
+
+export type StepValue =
+  | { kind: 'ref'; id: string }
+  | { kind: 'string'; value: string }
+  | { kind: 'enum'; value: string }
+  | { kind: 'real'; value: number }
+  | { kind: 'integer'; value: number }
+  | { kind: 'binary'; value: string }
+  | { kind: 'list'; items: StepValue[] }
+  | { kind: 'typed'; type: string; value: StepValue }
+  | { kind: 'null' }
+  | { kind: 'derived' };
+
+export interface StepEntityInstance {
+  id: string;
+  type: string;
+  args: StepValue[];
+  // Only set for complex instances such as #1=(IFCA()IFCB());
+  parts?: { type: string; args: StepValue[] }[];
+}
+
+export type StepStatement =
+  | { kind: 'instance'; instance: StepEntityInstance }
+  | { kind: 'header'; type: string; args: StepValue[] }
+  | { kind: 'keyword'; keyword: string };
+
+export type StepToken =
+  | { kind: 'ref'; value: string }
+  | { kind: 'keyword'; value: string }
+  | { kind: 'string'; value: string }
+  | { kind: 'enum'; value: string }
+  | { kind: 'integer'; value: number }
+  | { kind: 'real'; value: number }
+  | { kind: 'binary'; value: string }
+  | { kind: 'punct'; value: '(' | ')' | ',' | '=' | '$' | '*' | ';' };
+
+const isDigit = (c: string) => c >= '0' && c <= '9';
+const isKeywordStart = (c: string) => (c >= 'A' && c <= 'Z') || (c >= 'a' && c <= 'z') || c === '_' || c === '!';
+const isKeywordPart = (c: string) => isKeywordStart(c) || isDigit(c) || c === '-';
+
+export interface StepStatementSplitter {
+  // Feeds the next chunk of text and returns the statements it completed
+  push: (chunk: string) => string[];
+  // Returns whatever is left once the input has ended
+  flush: () => string[];
+}
+
+// Splits STEP text into statements terminated by ';', ignoring ';' inside
+// strings and dropping /* comments */. The terminating ';' is not included.
+// Text may arrive in arbitrary chunks; only the statement currently being
+// assembled is kept in memory.
+export const createStepStatementSplitter = (): StepStatementSplitter => {
+  let mode: 'code' | 'string' | 'comment' = 'code';
+  let carry = '';
+  let parts: string[] = [];
+  const special = /[';/]/g;
+
+  const emit = (statements: string[]) => {
+    const statement = parts.join('').trim();
+    parts = [];
+    if (statement) statements.push(statement);
+  };
+
+  const scan = (text: string, statements: string[]) => {
+    const n = text.length;
+    let start = 0;
+    let i = 0;
+    while (i < n) {
+      if (mode === 'string') {
+        // A doubled quote closes and immediately re-opens the string
+        const end = text.indexOf("'", i);
+        if (end === -1) break;
+        i = end + 1;
+        mode = 'code';
+      } else if (mode === 'comment') {
+        const end = text.indexOf('*/', i);
+        if (end === -1) {
+          // Keep a trailing '*' in case the chunk boundary splits '*/'
+          if (text[n - 1] === '*' && n - 1 >= i) carry = '*';
+          start = n;
+          break;
+        }
+        i = end + 2;
+        start = i;
+        mode = 'code';
+      } else {
+        special.lastIndex = i;
+        const match = special.exec(text);
+        if (!match) break;
+        i = match.index;
+        const c = match[0];
+        if (c === "'") {
+          mode = 'string';
+          i++;
+        } else if (c === ';') {
+          parts.push(text.slice(start, i));
+          emit(statements);
+          i++;
+          start = i;
+        } else if (i === n - 1) {
+          // Keep a trailing '/' in case the chunk boundary splits '/*'
+          carry = '/';
+          parts.push(text.slice(start, i));
+          start = n;
+          break;
+        } else if (text[i + 1] === '*') {
+          parts.push(text.slice(start, i));
+          mode = 'comment';
+          i += 2;
+          start = i;
+        } else {
+          i++;
+        }
+      }
+    }
+    if (start < n) parts.push(text.slice(start));
+  };
+
+  return {
+    push: (chunk: string) => {
+      const statements: string[] = [];
+      const text = carry + chunk;
+      carry = '';
+      scan(text, statements);
+      return statements;
+    },
+    flush: () => {
+      const statements: string[] = [];
+      if (carry && mode !== 'comment') parts.push(carry);
+      carry = '';
+      emit(statements);
+      mode = 'code';
+      return statements;
+    },
+  };
+};
+
+export function* iterateStepStatements(content: string): Generator<string> {
+  const splitter = createStepStatementSplitter();
+  yield* splitter.push(content);
+  yield* splitter.flush();
+}
+
+export interface StepChunk {
+  statements: string[];
+  // Total bytes consumed from the file so far
+  bytesRead: number;
+}
+
+// Reads a STEP file chunk by chunk, yielding the statements completed by each
+// chunk. The file is never held in memory as a whole.
+export async function* readStepStatements(file: Blob): AsyncGenerator<StepChunk> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder('utf-8');
+  const splitter = createStepStatementSplitter();
+  let bytesRead = 0;
+  let finished = false;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytesRead += value.byteLength;
+      yield { statements: splitter.push(decoder.decode(value, { stream: true })), bytesRead };
+    }
+    finished = true;
+    const rest = splitter.push(decoder.decode());
+    rest.push(...splitter.flush());
+    yield { statements: rest, bytesRead };
+  } finally {
+    // Stop reading the underlying file when the consumer bails out early
+    if (!finished) await reader.cancel();
+    reader.releaseLock();
+  }
+}
+
+const isHex = (text: string) => text.length > 0 && /^[0-9A-Fa-f]+$/.test(text);
+
+// ISO 8859 part selected by \PA\ .. \PI\, used for the upper half reached through \S\
+const codePageDecoders = new Map<string, TextDecoder | null>();
+
+const decodeUpperHalf = (page: string, code: number): string => {
+  if (page === 'A') return String.fromCharCode(code);
+  if (!codePageDecoders.has(page)) {
+    let decoder: TextDecoder | null = null;
+    try {
+      decoder = new TextDecoder(`iso-8859-${page.charCodeAt(0) - 64}`);
+    } catch {
+      // Unsupported part; fall back to Latin-1
+    }
+    codePageDecoders.set(page, decoder);
+  }
+  const decoder = codePageDecoders.get(page);
+  return decoder ? decoder.decode(new Uint8Array([code])) : String.fromCharCode(code);
+};
+
+// Decodes the control directives allowed inside STEP strings: \\, \S\c, \PA\,
+// \X\hh, \X2\hhhh...\X0\ (UTF-16) and \X4\hhhhhhhh...\X0\ (UCS-4).
+// Backslashes that don't start a valid directive are kept as written, since
+// some exporters emit unescaped Windows paths.
+export const decodeStepString = (raw: string): string => {
+  if (raw.indexOf('\\') === -1) return raw;
+  let out = '';
+  let page = 'A';
+  let i = 0;
+  while (i < raw.length) {
+    const slash = raw.indexOf('\\', i);
+    if (slash === -1) {
+      out += raw.slice(i);
+      break;
+    }
+    out += raw.slice(i, slash);
+    i = slash;
+    const next = raw[i + 1];
+    if (next === '\\') {
+      out += '\\';
+      i += 2;
+    } else if (next === 'S' && raw[i + 2] === '\\' && i + 3 < raw.length) {
+      out += decodeUpperHalf(page, raw.charCodeAt(i + 3) + 128);
+      i += 4;
+    } else if (next === 'P' && raw[i + 3] === '\\' && /[A-I]/.test(raw[i + 2] ?? '')) {
+      page = raw[i + 2];
+      i += 4;
+    } else if (next === 'X' && raw[i + 2] === '\\' && isHex(raw.slice(i + 3, i + 5))) {
+      out += String.fromCharCode(parseInt(raw.slice(i + 3, i + 5), 16));
+      i += 5;
+    } else if (next === 'X' && (raw[i + 2] === '2' || raw[i + 2] === '4') && raw[i + 3] === '\\') {
+      const end = raw.indexOf('\\X0\\', i + 4);
+      const width = raw[i + 2] === '2' ? 4 : 8;
+      const hex = end === -1 ? '' : raw.slice(i + 4, end);
+      if (!isHex(hex) || hex.length % width !== 0) {
+        out += '\\';
+        i += 1;
+        continue;
+      }
+      for (let k = 0; k < hex.length; k += width) {
+        const code = parseInt(hex.slice(k, k + width), 16);
+        // \X2\ yields UTF-16 code units, so surrogate pairs combine naturally
+        if (width === 4) out += String.fromCharCode(code);
+        else out += code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+      }
+      i = end + 4;
+    } else {
+      out += '\\';
+      i += 1;
+    }
+  }
+  return out;
+};
+
+export const tokenizeStep = (source: string): StepToken[] => {
+  const tokens: StepToken[] = [];
+  const n = source.length;
+  let i = 0;
+  while (i < n) {
+    const c = source[i];
+    if (c === ' ' || c === '\n' || c === '\r' || c === '\t') {
+      i++;
+    } else if (c === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      i = end === -1 ? n : end + 2;
+    } else if (c === "'") {
+      const chunks: string[] = [];
+      let j = i + 1;
+      for (;;) {
+        const end = source.indexOf("'", j);
+        if (end === -1) throw new Error(`Unterminated string at offset ${i}`);
+        chunks.push(source.slice(j, end));
+        if (source[end + 1] === "'") {
+          chunks.push("'");
+          j = end + 2;
+        } else {
+          i = end + 1;
+          break;
+        }
+      }
+      tokens.push({ kind: 'string', value: decodeStepString(chunks.join('')) });
+    } else if (c === '#') {
+      let j = i + 1;
+      while (j < n && isDigit(source[j])) j++;
+      if (j === i + 1) throw new Error(`Invalid entity reference at offset ${i}`);
+      tokens.push({ kind: 'ref', value: source.slice(i + 1, j) });
+      i = j;
+    } else if (c === '.' && isKeywordStart(source[i + 1] ?? '')) {
+      const end = source.indexOf('.', i + 1);
+      if (end === -1) throw new Error(`Unterminated enumeration at offset ${i}`);
+      tokens.push({ kind: 'enum', value: source.slice(i + 1, end).toUpperCase() });
+      i = end + 1;
+    } else if (isDigit(c) || ((c === '-' || c === '+') && (isDigit(source[i + 1] ?? '') || source[i + 1] === '.'))) {
+      let j = i + 1;
+      while (j < n && isDigit(source[j])) j++;
+      let isReal = false;
+      if (source[j] === '.') {
+        isReal = true;
+        j++;
+        while (j < n && isDigit(source[j])) j++;
+      }
+      if (source[j] === 'E' || source[j] === 'e') {
+        isReal = true;
+        j++;
+        if (source[j] === '-' || source[j] === '+') j++;
+        while (j < n && isDigit(source[j])) j++;
+      }
+      const text = source.slice(i, j);
+      tokens.push(isReal ? { kind: 'real', value: parseFloat(text) } : { kind: 'integer', value: parseInt(text, 10) });
+      i = j;
+    } else if (c === '"') {
+      const end = source.indexOf('"', i + 1);
+      if (end === -1) throw new Error(`Unterminated binary at offset ${i}`);
+      tokens.push({ kind: 'binary', value: source.slice(i + 1, end) });
+      i = end + 1;
+    } else if (isKeywordStart(c)) {
+      let j = i + 1;
+      while (j < n && isKeywordPart(source[j])) j++;
+      tokens.push({ kind: 'keyword', value: source.slice(i, j).toUpperCase() });
+      i = j;
+    } else if (c === '(' || c === ')' || c === ',' || c === '=' || c === '$' || c === '*' || c === ';') {
+      tokens.push({ kind: 'punct', value: c });
+      i++;
+    } else {
+      throw new Error(`Unexpected character '${c}' at offset ${i}`);
+    }
+  }
+  return tokens;
+};
+
+// Parses a single statement as returned by the statement splitter.
+export const parseStepStatement = (statement: string): StepStatement => {
+  const tokens = tokenizeStep(statement);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isPunct = (t: StepToken | undefined, value: string) => t?.kind === 'punct' && t.value === value;
+  const expectPunct = (value: string) => {
+    const t = tokens[pos++];
+    if (!isPunct(t, value)) throw new Error(`Expected '${value}' in statement: ${statement.slice(0, 80)}`);
+  };
+  const expectKeyword = (): string => {
+    const t = tokens[pos++];
+    if (t?.kind !== 'keyword') throw new Error(`Expected entity name in statement: ${statement.slice(0, 80)}`);
+    return t.value;
+  };
+
+  const parseValue = (): StepValue => {
+    const t = tokens[pos++];
+    if (!t) throw new Error(`Unexpected end of statement: ${statement.slice(0, 80)}`);
+    switch (t.kind) {
+      case 'ref':
+        return { kind: 'ref', id: t.value };
+      case 'string':
+      case 'enum':
+      case 'real':
+      case 'integer':
+      case 'binary':
+        return { kind: t.kind, value: t.value } as StepValue;
+      case 'keyword': {
+        const params = parseParams();
+        return { kind: 'typed', type: t.value, value: params.length === 1 ? params[0] : { kind: 'list', items: params } };
+      }
+      case 'punct':
+        if (t.value === '$') return { kind: 'null' };
+        if (t.value === '*') return { kind: 'derived' };
+        if (t.value === '(') {
+          pos--;
+          return { kind: 'list', items: parseParams() };
+        }
+    }
+    throw new Error(`Unexpected '${t.value}' in statement: ${statement.slice(0, 80)}`);
+  };
+
+  const parseParams = (): StepValue[] => {
+    expectPunct('(');
+    const values: StepValue[] = [];
+    if (isPunct(peek(), ')')) {
+      pos++;
+      return values;
+    }
+    for (;;) {
+      values.push(parseValue());
+      const t = tokens[pos++];
+      if (isPunct(t, ')')) return values;
+      if (!isPunct(t, ',')) throw new Error(`Expected ',' or ')' in statement: ${statement.slice(0, 80)}`);
+    }
+  };
+
+  const first = tokens[pos++];
+  if (!first) throw new Error('Empty statement');
+
+  let result: StepStatement;
+  if (first.kind === 'ref') {
+    expectPunct('=');
+    if (isPunct(peek(), '(')) {
+      pos++;
+      const parts: { type: string; args: StepValue[] }[] = [];
+      while (!isPunct(peek(), ')')) {
+        const type = expectKeyword();
+        parts.push({ type, args: parseParams() });
+      }
+      pos++;
+      if (!parts.length) throw new Error(`Empty complex instance #${first.value}`);
+      result = {
+        kind: 'instance',
+        instance: { id: first.value, type: parts[0].type, args: parts[0].args, parts },
+      };
+    } else {
+      const type = expectKeyword();
+      result = { kind: 'instance', instance: { id: first.value, type, args: parseParams() } };
+    }
+  } else if (first.kind === 'keyword') {
+    result = isPunct(peek(), '(')
+      ? { kind: 'header', type: first.value, args: parseParams() }
+      : { kind: 'keyword', keyword: first.value };
+  } else {
+    throw new Error(`Unexpected statement: ${statement.slice(0, 80)}`);
+  }
+
+  if (pos < tokens.length) throw new Error(`Trailing tokens in statement: ${statement.slice(0, 80)}`);
+  return result;
+};
+
+// --- Value helpers ---
+
+// Unwraps typed values such as IFCLABEL('x') down to their underlying value
+export const unwrapStepValue = (value: StepValue | undefined): StepValue | undefined => {
+  let v = value;
+  while (v?.kind === 'typed') v = v.value;
+  return v;
+};
+
+export const stepString = (value: StepValue | undefined): string | null => {
+  const v = unwrapStepValue(value);
+  return v?.kind === 'string' ? v.value : null;
+};
+
+export const stepNumber = (value: StepValue | undefined): number | null => {
+  const v = unwrapStepValue(value);
+  return v?.kind === 'real' || v?.kind === 'integer' ? v.value : null;
+};
+
+export const stepEnum = (value: StepValue | undefined): string | null => {
+  const v = unwrapStepValue(value);
+  return v?.kind === 'enum' ? v.value : null;
+};
+
+export const stepRef = (value: StepValue | undefined): string | null => {
+  return value?.kind === 'ref' ? value.id : null;
+};
+
+export const stepList = (value: StepValue | undefined): StepValue[] => {
+  const v = unwrapStepValue(value);
+  return v?.kind === 'list' ? v.items : [];
+};
+
+export const stepRefs = (value: StepValue | undefined): string[] => {
+  return stepList(value).map(stepRef).filter((id): id is string => id !== null);
+};
+
+// Plain-text rendering used for CSV cells: strings without quotes, enums without dots
+export const formatStepValue = (value: StepValue | undefined): string => {
+  if (!value) return '';
+  switch (value.kind) {
+    case 'ref':
+      return `#${value.id}`;
+    case 'string':
+    case 'enum':
+    case 'binary':
+      return value.value;
+    case 'real':
+    case 'integer':
+      return String(value.value);
+    case 'list':
+      return `(${value.items.map(formatStepValue).join(',')})`;
+    case 'typed':
+      return `${value.type}(${formatStepValue(value.value)})`;
+    case 'null':
+      return '';
+    case 'derived':
+      return '*';
+  }
+};
@@ -0,0 +1,213 @@
+// Runs IFC parsing, volume computation and CSV generation off the main thread.
+
+import {
+  IFCEntity,
+  IFCParseResult,
+  iterateCSV,
+  iterateCSVAllParams,
+  iterateCSVLayers,
+  parseIFCFile,
+} from '../utils/ifcParser';
+import { IFCModel, parseIFCFile3D } from '../utils/ifcParser3D';
+import { IFCProcessingOptions, IFCProgress, createAbortError, isAbortError, throwIfAborted } from '../utils/ifcProgress';
+import { IFCExportTemplate, STRUCTURAL_TEMPLATE, iterateCSVTemplate } from '../utils/ifcExportTemplates';
+import { createCSVStream } from '../utils/csvStream';
+import { CSVCell, serializeCSV } from '../utils/csvFormat';
+import { IFCOpeningRule } from '../utils/ifcOpenings';
+import { IFCSelectedQuantities, selectedValues } from '../utils/ifcQuantitySources';
+import { detectSchema } from '../utils/ifcSchema';
+import { IFCUnitSystem } from '../utils/ifcUnits';
+import { CSVExportFormat, IFCSource, IFCWorkerRequest, IFCWorkerResponse } from './ifcWorkerProtocol';
+
+// Minimum delay between two progress messages of the same phase
+const PROGRESS_THROTTLE_MS = 100;
+
+const controllers = new Map<number, AbortController>();
+
+// Chunks asked for by the reader of each CSV export and not sent yet, and the
+// export waiting for the next ask
+interface CSVPulls {
+  requested: number;
+  wake?: () => void;
+}
+
+const csvPulls = new Map<number, CSVPulls>();
+
+const post = (message: IFCWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// Resolves once the reader has asked for another chunk; rejects when the export is cancelled
+const waitForPull = (requestId: number, signal?: AbortSignal): Promise<void> => {
+  throwIfAborted(signal);
+  const pulls = csvPulls.get(requestId)!;
+  if (pulls.requested > 0) {
+    pulls.requested--;
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      pulls.wake = undefined;
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    pulls.wake = () => {
+      signal?.removeEventListener('abort', onAbort);
+      pulls.wake = undefined;
+      resolve();
+    };
+  });
+};
+
+const toBlob = (source: IFCSource): Blob => (source instanceof ArrayBuffer ? new Blob([source]) : source);
+
+// Mesh buffers are moved to the main thread instead of being copied
+const meshBuffersOf = (model: IFCModel): Transferable[] =>
+  model.elements.flatMap(({ mesh }) =>
+    mesh ? [mesh.positions.buffer, mesh.normals.buffer, mesh.colors.buffer, mesh.indices.buffer] : []
+  );
+
+// Converters get the (possibly type-filtered) entities plus the whole parse
+// result for lookups that need entities outside the filter, and yield CSV rows, header first
+type CSVConverter = (entities: IFCEntity[], result: IFCParseResult, settings: CSVConverterSettings) => Iterable<CSVCell[]>;
+
+interface CSVConverterSettings {
+  unitSystem: IFCUnitSystem;
+  // Areas and volumes of the loaded model, for formats that need them
+  quantities?: IFCSelectedQuantities;
+  openingRule?: IFCOpeningRule;
+  template?: IFCExportTemplate;
+}
+
+const csvConverters: Record<CSVExportFormat, CSVConverter> = {
+  'entities': entities => iterateCSV(entities),
+  'all-params': entities => iterateCSVAllParams(entities),
+  'template': (entities, result, { template = STRUCTURAL_TEMPLATE, ...settings }) =>
+    iterateCSVTemplate(entities, result, template, settings),
+  'layers': (entities, result, { unitSystem, quantities = {} }) =>
+    iterateCSVLayers(
+      entities,
+      selectedValues(quantities, 'volume'),
+      selectedValues(quantities, 'area'),
+      detectSchema(result.header.schemaIdentifiers),
+      unitSystem
+    ),
+};
+
+// Passes rows through to the writer, counting the data rows after the header
+function* countDataRows(
+  rows: Iterable<CSVCell[]>,
+  count: { rows: number },
+  onRow?: (rows: number) => void
+): Generator<CSVCell[]> {
+  let header = true;
+  for (const row of rows) {
+    if (!header) onRow?.(++count.rows);
+    header = false;
+    yield row;
+  }
+}
+
+const createOptions = (requestId: number, signal: AbortSignal): IFCProcessingOptions => {
+  let lastPhase: IFCProgress['phase'] | null = null;
+  let lastSent = 0;
+  return {
+    signal,
+    onProgress: (progress) => {
+      const now = Date.now();
+      if (progress.phase === lastPhase && now - lastSent < PROGRESS_THROTTLE_MS) return;
+      lastPhase = progress.phase;
+      lastSent = now;
+      post({ kind: 'progress', requestId, progress });
+    },
+  };
+};
+
+const handleRequest = async (
+  request: Exclude<IFCWorkerRequest, { kind: 'cancel' | 'csv-pull' }>,
+  options: IFCProcessingOptions
+) => {
+  switch (request.kind) {
+    case 'parse-model': {
+      const model = await parseIFCFile3D(toBlob(request.source), options, request.settings);
+      post({ kind: 'model', requestId: request.requestId, model }, meshBuffersOf(model));
+      break;
+    }
+    case 'export-csv': {
+      const result = await parseIFCFile(toBlob(request.source), options);
+      const { header } = result;
+      let entities = result.entities;
+      const { types: typeFilter, unitSystem = 'metric', template, dialect, quantities, openingRule } = request.settings;
+      if (typeFilter) {
+        const types = new Set(typeFilter);
+        entities = entities.filter(e => types.has(e.type));
+      }
+      const total = entities.length;
+      options.onProgress?.({ phase: 'csv', completed: 0, total });
+      const rows = csvConverters[request.format](entities, result, {
+        unitSystem,
+        quantities,
+        openingRule,
+        template,
+      });
+      post({ kind: 'csv-start', requestId: request.requestId, header });
+      // Counted as written: not every format writes one row per entity
+      const count = { rows: 0 };
+      // Throttled by the options; layers write several rows per entity, so their total grows with the rows
+      const onRow = (completed: number) =>
+        options.onProgress?.({ phase: 'csv', completed, total: Math.max(total, completed) });
+      const reader = createCSVStream(serializeCSV(countDataRows(rows, count, onRow), dialect)).getReader();
+      for (;;) {
+        try {
+          await waitForPull(request.requestId, options.signal);
+        } catch (error) {
+          await reader.cancel();
+          throw error;
+        }
+        const { done, value } = await reader.read();
+        if (done) break;
+        const data = value.buffer as ArrayBuffer;
+        post({ kind: 'csv-chunk', requestId: request.requestId, data, rowCount: count.rows }, [data]);
+      }
+      // Posted directly so the throttle cannot drop it and the bar ends full
+      post({
+        kind: 'progress',
+        requestId: request.requestId,
+        progress: { phase: 'csv', completed: count.rows, total: count.rows },
+      });
+      post({ kind: 'csv', requestId: request.requestId, rowCount: count.rows, header });
+      break;
+    }
+  }
+};
+
+self.onmessage = (e: MessageEvent<IFCWorkerRequest>) => {
+  const request = e.data;
+  if (request.kind === 'cancel') {
+    controllers.get(request.requestId)?.abort();
+    return;
+  }
+  if (request.kind === 'csv-pull') {
+    const pulls = csvPulls.get(request.requestId);
+    if (pulls?.wake) pulls.wake();
+    else if (pulls) pulls.requested++;
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.requestId, controller);
+  // Pulls may arrive while the file is still being parsed
+  if (request.kind === 'export-csv') csvPulls.set(request.requestId, { requested: 0 });
+  handleRequest(request, createOptions(request.requestId, controller.signal))
+    .catch((error) => {
+      post({
+        kind: 'error',
+        requestId: request.requestId,
+        message: isAbortError(error) ? 'cancelled' : error instanceof Error ? error.message : String(error),
+      });
+    })
+    .finally(() => {
+      controllers.delete(request.requestId);
+      csvPulls.delete(request.requestId);
+    });
+};
@@ -0,0 +1,190 @@
+// Main-thread side of the IFC worker. A single worker is started lazily and
+// shared by all callers; responses are matched to requests by requestId.
+
+import type { IFCFileHeader } from '../utils/ifcParser';
+import type { IFCModel } from '../utils/ifcParser3D';
+import { IFCProcessingOptions, createAbortError } from '../utils/ifcProgress';
+import {
+  CSVExportFormat,
+  CSVExportSettings,
+  IFCModelSettings,
+  IFCSource,
+  IFCWorkerRequest,
+  IFCWorkerResponse,
+  transferablesOf,
+} from './ifcWorkerProtocol';
+
+type FinalResponse = Exclude<IFCWorkerResponse, { kind: 'progress' | 'error' | 'csv-start' | 'csv-chunk' }>;
+
+// Receivers for the messages a CSV export streams before its final response
+interface CSVStreamHandlers {
+  onStart?: (header: IFCFileHeader) => void;
+  onChunk?: (data: ArrayBuffer, rowCount: number) => void;
+}
+
+type PendingRequest = CSVStreamHandlers & {
+  resolve: (response: FinalResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: IFCProcessingOptions['onProgress'];
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./ifcWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<IFCWorkerResponse>) => {
+    const response = e.data;
+    const request = pending.get(response.requestId);
+    if (!request) return;
+    if (response.kind === 'progress') {
+      request.onProgress?.(response.progress);
+      return;
+    }
+    if (response.kind === 'csv-start') {
+      request.onStart?.(response.header);
+      return;
+    }
+    if (response.kind === 'csv-chunk') {
+      request.onChunk?.(response.data, response.rowCount);
+      return;
+    }
+    pending.delete(response.requestId);
+    if (response.kind === 'error') {
+      request.reject(new Error(response.message));
+    } else {
+      request.resolve(response);
+    }
+  };
+  worker.onerror = (e) => {
+    // An uncaught error leaves the worker in an unknown state: fail everything and start over
+    const error = new Error(e.message || 'IFC worker failed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+// The requestId is only chosen by the caller when it has to send follow-up messages
+const send = (
+  request: DistributiveOmit<Exclude<IFCWorkerRequest, { kind: 'cancel' | 'csv-pull' }>, 'requestId'>,
+  { signal, onProgress, onStart, onChunk }: IFCProcessingOptions & CSVStreamHandlers = {},
+  requestId = nextRequestId++
+): Promise<FinalResponse> => {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      if (!pending.delete(requestId)) return;
+      worker?.postMessage({ kind: 'cancel', requestId } satisfies IFCWorkerRequest);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    pending.set(requestId, {
+      resolve: (response) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(response);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onProgress,
+      onStart,
+      onChunk,
+    });
+    const message = { ...request, requestId } as IFCWorkerRequest;
+    getWorker().postMessage(message, transferablesOf(message));
+  });
+};
+
+export const parseIFCModelInWorker = async (
+  source: IFCSource,
+  settings: IFCModelSettings = {},
+  options: IFCProcessingOptions = {}
+): Promise<IFCModel> => {
+  const response = await send({ kind: 'parse-model', source, settings }, options);
+  if (response.kind !== 'model') throw new Error(`Unexpected worker response: ${response.kind}`);
+  return response.model;
+};
+
+export interface IFCCSVExport {
+  header: IFCFileHeader;
+  // UTF-8 encoded CSV, filled as the worker writes it; errors if the export fails
+  csv: ReadableStream<Uint8Array>;
+  // Resolves once the whole CSV has been received, or with the rows received
+  // so far when the reader cancels the stream
+  rowCount: Promise<number>;
+}
+
+// Resolves as soon as the worker starts writing rows, so the caller can put
+// its own content (BOM, metadata) in front of the streamed CSV. The stream
+// asks the worker for each chunk when it wants more, so at most one chunk
+// waits unread on this side.
+export const exportCSVInWorker = (
+  source: IFCSource,
+  format: CSVExportFormat,
+  settings: CSVExportSettings = {},
+  options: IFCProcessingOptions = {}
+): Promise<IFCCSVExport> =>
+  new Promise((resolve, reject) => {
+    const requestId = nextRequestId++;
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    // Resolves the pending pull once the asked-for chunk or the end arrives
+    let delivered: (() => void) | undefined;
+    // Set when the reader cancels; chunks and the final response may still be on their way
+    let cancelled = false;
+    let received = 0;
+    const csv = new ReadableStream<Uint8Array>({
+      start: (c) => {
+        controller = c;
+      },
+      pull: () =>
+        new Promise<void>((resolvePull) => {
+          delivered = resolvePull;
+          worker?.postMessage({ kind: 'csv-pull', requestId } satisfies IFCWorkerRequest);
+        }),
+      // A reader that gives up would otherwise leave the worker waiting for the next pull
+      cancel: () => {
+        cancelled = true;
+        worker?.postMessage({ kind: 'cancel', requestId } satisfies IFCWorkerRequest);
+      },
+    });
+    const deliver = () => {
+      delivered?.();
+      delivered = undefined;
+    };
+    const rowCount = send({ kind: 'export-csv', source, format, settings }, {
+      ...options,
+      onStart: header => resolve({ header, csv, rowCount }),
+      onChunk: (data, rows) => {
+        if (cancelled) return;
+        controller.enqueue(new Uint8Array(data));
+        received = rows;
+        deliver();
+      },
+    }, requestId).then(
+      (response) => {
+        if (response.kind !== 'csv') throw new Error(`Unexpected worker response: ${response.kind}`);
+        if (cancelled) return received;
+        controller.close();
+        deliver();
+        return response.rowCount;
+      },
+      (error) => {
+        // The reader asked for the cancellation, so it is not a failure
+        if (cancelled) return received;
+        controller.error(error);
+        deliver();
+        reject(error);
+        throw error;
+      }
+    );
+    // Callers that only read the stream see the failure there
+    rowCount.catch(() => {});
+  });
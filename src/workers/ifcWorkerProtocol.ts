@@ -0,0 +1,65 @@
+// Message protocol between the main thread and ifcWorker.ts.
+// Every request carries a requestId which is echoed back on its response.
+
+import type { CSVDialect } from '../utils/csvFormat';
+import type { IFCExportTemplate } from '../utils/ifcExportTemplates';
+import type { IFCFileHeader } from '../utils/ifcParser';
+import type { IFCModel, IFCModelSettings } from '../utils/ifcParser3D';
+import type { IFCProgress } from '../utils/ifcProgress';
+import type { IFCSelectedQuantities } from '../utils/ifcQuantitySources';
+import type { IFCUnitSystem } from '../utils/ifcUnits';
+
+export type { IFCModelSettings };
+
+// 'layers' writes one row per element and material layer, 'template' the
+// columns of a user-defined export template
+export type CSVExportFormat = 'entities' | 'all-params' | 'template' | 'layers';
+
+export interface CSVExportSettings extends IFCModelSettings {
+  // Restricts the export to these upper-case IFC types when given
+  types?: string[];
+  // Unit system for quantity columns; raw entity dumps keep the file's values
+  unitSystem?: IFCUnitSystem;
+  // Columns of the 'template' format, the structural template by default
+  template?: IFCExportTemplate;
+  // Areas and volumes of the loaded model, used by the 'template' and 'layers'
+  // formats; without them templates fall back to the entities' own quantities
+  // and layers get no area or volume
+  quantities?: IFCSelectedQuantities;
+  // Separators, quoting and header row; the byte order mark is left to the
+  // caller, which may write its own content first
+  dialect?: CSVDialect;
+}
+
+// File contents are posted either as a File/Blob handle (cheap to clone, read
+// by the worker as a stream) or as an ArrayBuffer, which is transferred.
+export type IFCSource = Blob | ArrayBuffer;
+
+export type IFCWorkerRequest =
+  | { kind: 'parse-model'; requestId: number; source: IFCSource; settings: IFCModelSettings }
+  | {
+      kind: 'export-csv';
+      requestId: number;
+      source: IFCSource;
+      format: CSVExportFormat;
+      settings: CSVExportSettings;
+    }
+  // Asks the CSV export with the same requestId for its next chunk
+  | { kind: 'csv-pull'; requestId: number }
+  // Aborts the in-flight request with the same requestId
+  | { kind: 'cancel'; requestId: number };
+
+export type IFCWorkerResponse =
+  | { kind: 'model'; requestId: number; model: IFCModel }
+  // A CSV export streams as csv-start, any number of csv-chunk messages with
+  // UTF-8 encoded text (transferred rather than copied), then csv. Each chunk
+  // is only sent in answer to a csv-pull, so the reader sets the pace.
+  | { kind: 'csv-start'; requestId: number; header: IFCFileHeader }
+  // rowCount: data rows in this and the earlier chunks
+  | { kind: 'csv-chunk'; requestId: number; data: ArrayBuffer; rowCount: number }
+  | { kind: 'csv'; requestId: number; rowCount: number; header: IFCFileHeader }
+  | { kind: 'progress'; requestId: number; progress: IFCProgress }
+  | { kind: 'error'; requestId: number; message: string };
+
+export const transferablesOf = (request: IFCWorkerRequest): Transferable[] =>
+  'source' in request && request.source instanceof ArrayBuffer ? [request.source] : [];
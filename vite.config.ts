@@ -19,5 +19,9 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // ES module workers so the IFC worker can use code-split imports
+  worker: {
+    format: 'es',
+  },
   // No special optimizeDeps needed now that Excel export is removed
 }));